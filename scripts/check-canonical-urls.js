@@ -3,7 +3,8 @@
  * Validates canonical URL output for the static export.
  *
  * The site is deployed to GitHub Pages. Directory index files avoid exposing
- * duplicate /page.html URLs for indexable pages.
+ * duplicate /page.html URLs for indexable pages. Redirect pages for post
+ * `aliases` must instead point their canonical link at the redirect target.
  */
 
 const fs = require('fs');
@@ -69,7 +70,8 @@ for (const filePath of htmlFiles.sort()) {
   }
 
   const canonical = canonicalMatches[0][1];
-  const expectedCanonical = expectedCanonicalFor(filePath);
+  const refresh = html.match(/<meta http-equiv="refresh" content="0; url=([^"]+)"/);
+  const expectedCanonical = refresh ? `${SITE_ORIGIN}${refresh[1]}` : expectedCanonicalFor(filePath);
 
   if (canonical !== expectedCanonical) {
     errors.push(`${relativePath}: canonical ${canonical} does not match ${expectedCanonical}`);
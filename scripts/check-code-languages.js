@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+/**
+ * Lists fenced code blocks in ./content whose language has no highlighting
+ * grammar.
+ *
+ * rehype-highlight renders such blocks as plain text without complaint, so a
+ * typo or a language missing from src/lib/highlight-languages.ts is easy to
+ * miss. Unlabelled fences are plain text on purpose and are not reported.
+ *
+ * Usage:
+ *   node scripts/check-code-languages.js
+ *
+ * Exit codes:
+ *   0 = always; this is a report, not a gate
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+
+// The grammars src/lib/highlight-languages.ts adds to lowlight's common set
+const EXTRA_LANGUAGES = Object.entries(require('../src/lib/highlight-languages.json')).flatMap(
+  ([name, aliases]) => [name, ...aliases]
+);
+
+// Rendered by other plugins rather than highlighted
+const HANDLED_ELSEWHERE = ['mermaid', 'math'];
+
+function collectFiles(dir) {
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...collectFiles(fullPath));
+    } else if (/\.mdx?$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function collectFences(source) {
+  const fences = [];
+  let open = null;
+
+  source.split('\n').forEach((line, index) => {
+    const match = line.match(/^\s*(`{3,}|~{3,})\s*([^\s`{]*)/);
+    if (!match) return;
+
+    const [, marker, language] = match;
+    if (!open) {
+      open = marker;
+      if (language) fences.push({ line: index + 1, language });
+    } else if (marker[0] === open[0] && marker.length >= open.length && !language) {
+      open = null;
+    }
+  });
+
+  return fences;
+}
+
+async function main() {
+  const { common, createLowlight } = await import('lowlight');
+  const lowlight = createLowlight(common);
+  const isKnown = (language) =>
+    lowlight.registered(language) || EXTRA_LANGUAGES.includes(language.toLowerCase());
+
+  const unknown = [];
+
+  for (const filePath of collectFiles(CONTENT_DIR).sort()) {
+    const source = fs.readFileSync(filePath, 'utf8');
+
+    for (const { line, language } of collectFences(source)) {
+      // `diff-ts` fences are highlighted as `ts`
+      const highlighted = language.replace(/^diff-/, '');
+      if (HANDLED_ELSEWHERE.includes(highlighted) || isKnown(highlighted)) continue;
+      unknown.push(`${path.relative(process.cwd(), filePath)}:${line}: ${language}`);
+    }
+  }
+
+  if (unknown.length > 0) {
+    console.warn(`Code blocks without a highlighting grammar (${unknown.length}), rendered as plain text:\n`);
+    for (const entry of unknown) {
+      console.warn(`  - ${entry}`);
+    }
+    return;
+  }
+
+  console.log('All code block languages have a highlighting grammar');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
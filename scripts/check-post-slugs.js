@@ -15,12 +15,12 @@ const POSTS_DIR = path.join(process.cwd(), 'content/posts');
 const errors = [];
 
 for (const fileName of fs.readdirSync(POSTS_DIR).sort()) {
-  if (!fileName.endsWith('.md')) {
+  if (!/\.mdx?$/.test(fileName)) {
     continue;
   }
 
   const filePath = path.join(POSTS_DIR, fileName);
-  const expectedSlug = fileName.replace(/\.md$/, '');
+  const expectedSlug = fileName.replace(/\.mdx?$/, '');
   const fileContents = fs.readFileSync(filePath, 'utf8');
   const { data } = matter(fileContents);
 
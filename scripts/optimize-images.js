@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+/**
+ * Generates responsive AVIF and WebP variants of every image a post
+ * references, before `next build`.
+ *
+ * Variants are resized from the `_o` original next to an image when there is
+ * one, since it is the highest-resolution copy, and written to
+ * public/generated/images. A manifest with each image's intrinsic dimensions,
+ * variant srcsets and full-resolution file is written to .cache/images, where
+ * src/lib/images.ts picks it up to turn <img> tags into <picture> elements.
+ * GIFs and SVGs only get their dimensions recorded. Variants newer than their
+ * source are reused.
+ *
+ * Usage:
+ *   node scripts/optimize-images.js
+ *
+ * Exit codes:
+ *   0 = manifest written
+ *   1 = a referenced image is missing or could not be read
+ */
+
+const fs = require('fs');
+const path = require('path');
+const sharp = require('sharp');
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+const OUTPUT_DIR = path.join(PUBLIC_DIR, 'generated');
+const MANIFEST_PATH = path.join(process.cwd(), '.cache/images/manifest.json');
+
+// Posts are at most 720px wide, so these cover 1x, 1.5x and 2x screens
+const WIDTHS = [480, 720, 1080, 1440];
+const FORMATS = [
+  { extension: 'avif', type: 'image/avif', options: { quality: 55, effort: 4 } },
+  { extension: 'webp', type: 'image/webp', options: { quality: 75 } },
+];
+const RESIZABLE = /\.(png|jpe?g)$/i;
+
+function collectFiles(dir) {
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...collectFiles(fullPath));
+    } else if (/\.mdx?$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// Markdown images, <img> tags, MDX props and frontmatter all use site paths
+function collectImages() {
+  const locationsBySrc = new Map();
+
+  for (const filePath of collectFiles(CONTENT_DIR).sort()) {
+    const source = fs.readFileSync(filePath, 'utf8');
+    const imageRegex = /\/images\/[^\s)"'<>]+\.(?:png|jpe?g|gif|svg)/gi;
+    let match;
+
+    while ((match = imageRegex.exec(source)) !== null) {
+      const line = source.slice(0, match.index).split('\n').length;
+      const location = `${path.relative(process.cwd(), filePath)}:${line}`;
+      const locations = locationsBySrc.get(match[0]) ?? [];
+      locationsBySrc.set(match[0], [...locations, location]);
+    }
+  }
+
+  return locationsBySrc;
+}
+
+function isUpToDate(outputPath, sourcePath) {
+  try {
+    return fs.statSync(outputPath).mtimeMs >= fs.statSync(sourcePath).mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+async function processImage(src) {
+  const filePath = path.join(PUBLIC_DIR, src);
+  const { width, height } = await sharp(filePath).metadata();
+  const originalPath = filePath.replace(/(\.\w+)$/, '_o$1');
+  const hasOriginal = fs.existsSync(originalPath);
+  const entry = { width, height, original: hasOriginal ? src.replace(/(\.\w+)$/, '_o$1') : src, sources: [] };
+
+  if (!RESIZABLE.test(src)) {
+    return { entry, generated: 0 };
+  }
+
+  const sourcePath = hasOriginal ? originalPath : filePath;
+  const { width: sourceWidth } = await sharp(sourcePath).metadata();
+  const widths = WIDTHS.filter((w) => w < sourceWidth);
+  if (widths.length < WIDTHS.length) widths.push(sourceWidth);
+
+  const baseName = src.replace(/^\//, '').replace(/\.\w+$/, '');
+  let generated = 0;
+
+  for (const { extension, type, options } of FORMATS) {
+    const srcset = [];
+
+    for (const w of widths) {
+      const outputName = `${baseName}-${w}.${extension}`;
+      const outputPath = path.join(OUTPUT_DIR, outputName);
+
+      if (!isUpToDate(outputPath, sourcePath)) {
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        await sharp(sourcePath).resize({ width: w }).toFormat(extension, options).toFile(outputPath);
+        generated++;
+      }
+
+      srcset.push(`/generated/${outputName} ${w}w`);
+    }
+
+    entry.sources.push({ type, srcset: srcset.join(', ') });
+  }
+
+  return { entry, generated };
+}
+
+async function main() {
+  const images = collectImages();
+  const manifest = {};
+  const errors = [];
+  let generated = 0;
+
+  for (const [src, locations] of images) {
+    if (!fs.existsSync(path.join(PUBLIC_DIR, src))) {
+      for (const location of locations) {
+        errors.push(`${location}: ${src} does not exist in public/`);
+      }
+      continue;
+    }
+
+    try {
+      const result = await processImage(src);
+      manifest[src] = result.entry;
+      generated += result.generated;
+    } catch (err) {
+      errors.push(`${locations[0]}: could not process ${src} (${err.message})`);
+    }
+  }
+
+  if (errors.length > 0) {
+    console.error(`Image optimization failed (${errors.length} issue(s)):\n`);
+    for (const error of errors) {
+      console.error(`  - ${error}`);
+    }
+    process.exit(1);
+  }
+
+  fs.mkdirSync(path.dirname(MANIFEST_PATH), { recursive: true });
+  fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  console.log(`Optimized ${images.size} image(s), ${generated} variant(s) generated`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
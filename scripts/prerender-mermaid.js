@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+/**
+ * Renders every Mermaid chart in ./content to static SVG before `next build`.
+ *
+ * Each chart is rendered with the light and dark palettes from
+ * src/lib/mermaid-themes.json in headless Chromium and cached under
+ * .cache/mermaid, where src/lib/mermaid.ts picks it up. Charts that cannot be
+ * pre-rendered, for example because Chromium is not installed, fall back to
+ * client-side rendering. Syntax is checked in Node first, so invalid Mermaid
+ * fails the build with the chart's source location either way.
+ *
+ * Usage:
+ *   node scripts/prerender-mermaid.js
+ *
+ * Exit codes:
+ *   0 = every new chart parsed; each was rendered or left to the client-side
+ *       fallback
+ *   1 = invalid Mermaid syntax found
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+const CACHE_DIR = path.join(process.cwd(), '.cache/mermaid');
+const themes = require('../src/lib/mermaid-themes.json');
+
+// Keep in sync with mermaidChartKey in src/lib/mermaid.ts
+function chartKey(chart) {
+  return crypto
+    .createHash('sha256')
+    .update(`${JSON.stringify(themes)}\n${chart.trim()}`)
+    .digest('hex');
+}
+
+function collectFiles(dir) {
+  const files = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...collectFiles(fullPath));
+    } else if (/\.mdx?$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// Same fence pattern markdownToHtml uses to find charts
+function collectCharts() {
+  const chartsByKey = new Map();
+
+  for (const filePath of collectFiles(CONTENT_DIR).sort()) {
+    const source = fs.readFileSync(filePath, 'utf8');
+    const fenceRegex = /```mermaid\n([\s\S]*?)\n```/g;
+    let match;
+
+    while ((match = fenceRegex.exec(source)) !== null) {
+      const chart = match[1].trim();
+      const key = chartKey(chart);
+      const line = source.slice(0, match.index).split('\n').length;
+      const location = `${path.relative(process.cwd(), filePath)}:${line}`;
+
+      if (chartsByKey.has(key)) {
+        chartsByKey.get(key).locations.push(location);
+      } else {
+        chartsByKey.set(key, { key, chart, locations: [location] });
+      }
+    }
+  }
+
+  return Array.from(chartsByKey.values());
+}
+
+/**
+ * Parses the charts with Mermaid in Node. Mermaid sanitizes labels with
+ * DOMPurify, which needs a DOM, so a jsdom window stands in for the browser.
+ */
+async function findSyntaxErrors(charts) {
+  const { JSDOM } = require('jsdom');
+  const { window } = new JSDOM('');
+  Object.assign(globalThis, { window, document: window.document, Element: window.Element });
+
+  const { default: mermaid } = await import('mermaid');
+  const syntaxErrors = [];
+
+  for (const { chart, locations } of charts) {
+    try {
+      await mermaid.parse(chart);
+    } catch (err) {
+      const message = err.message.split('\n').slice(0, 3).join(' ').trim();
+      for (const location of locations) {
+        syntaxErrors.push(`${location}: ${message}`);
+      }
+    }
+  }
+
+  return syntaxErrors;
+}
+
+async function main() {
+  const charts = collectCharts();
+  const pending = charts.filter((chart) => !fs.existsSync(path.join(CACHE_DIR, `${chart.key}.json`)));
+
+  if (pending.length === 0) {
+    console.log(`Mermaid charts up to date (${charts.length} cached)`);
+    return;
+  }
+
+  const syntaxErrors = await findSyntaxErrors(pending);
+  if (syntaxErrors.length > 0) {
+    console.error(`Mermaid validation failed (${syntaxErrors.length} issue(s)):\n`);
+    for (const error of syntaxErrors) {
+      console.error(`  - ${error}`);
+    }
+    process.exit(1);
+  }
+
+  let browser;
+  try {
+    const { chromium } = require('playwright');
+    browser = await chromium.launch();
+  } catch (err) {
+    console.warn(`Could not launch Chromium (${err.message.split('\n')[0]}).`);
+    console.warn(`${pending.length} Mermaid chart(s) will be rendered in the browser instead.`);
+    return;
+  }
+
+  let rendered = 0;
+
+  try {
+    const page = await browser.newPage();
+    await page.setContent('<!DOCTYPE html><html><body></body></html>');
+    await page.addScriptTag({ path: require.resolve('mermaid/dist/mermaid.min.js') });
+
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+
+    for (const { key, chart, locations } of pending) {
+      try {
+        const svgs = {};
+        for (const [name, themeVariables] of Object.entries(themes)) {
+          svgs[name] = await page.evaluate(
+            async ({ source, id, variables }) => {
+              window.mermaid.initialize({ startOnLoad: false, theme: 'base', themeVariables: variables });
+              const { svg } = await window.mermaid.render(id, source);
+              return svg;
+            },
+            { source: chart, id: `mermaid-${key.slice(0, 12)}-${name}`, variables: themeVariables }
+          );
+        }
+        fs.writeFileSync(path.join(CACHE_DIR, `${key}.json`), JSON.stringify(svgs));
+        rendered++;
+      } catch (err) {
+        console.warn(`${locations[0]}: could not pre-render chart, falling back to client-side rendering (${err.message.split('\n')[0]})`);
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  console.log(`Pre-rendered ${rendered} of ${pending.length} Mermaid chart(s) (${charts.length} total)`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,23 @@
+import { notFound } from 'next/navigation';
+import { getAllPosts, getPostBySlug } from '@/lib/posts';
+import { renderPostCard } from '@/lib/social-card';
+
+export const dynamic = 'force-static';
+
+// Posts with a frontmatter `image` use it instead of a generated card
+export async function generateStaticParams() {
+  return getAllPosts()
+    .filter((post) => !post.image)
+    .map((post) => ({ slug: post.slug }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const post = getPostBySlug(slug);
+
+  if (!post) {
+    notFound();
+  }
+
+  return renderPostCard(post);
+}
@@ -1,18 +1,25 @@
 import { notFound } from 'next/navigation';
-import { getPostBySlug, getAllPosts } from '@/lib/posts';
-import { siteFileUrl, siteUrl } from '@/lib/site';
+import { getPostBySlug, getPostByAlias, getAllPosts, getSeriesForPost, getAdjacentPosts } from '@/lib/posts';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { getPostImage } from '@/lib/social-card';
+import { getTagLabel } from '@/lib/tag-registry';
 import BlogPost from '@/components/BlogPost';
+import PostNav from '@/components/PostNav';
 import RelatedPosts from '@/components/RelatedPosts';
+import PostRedirect from '@/components/PostRedirect';
 
 interface PostPageProps {
   params: Promise<{ slug: string }>;
 }
 
+// Former slugs from `aliases` get redirect pages at their old URLs
 export async function generateStaticParams() {
   const posts = getAllPosts();
-  return posts.map((post) => ({
-    slug: post.slug,
-  }));
+  return posts.flatMap((post) => [
+    { slug: post.slug },
+    ...post.aliases.map((alias) => ({ slug: alias })),
+  ]);
 }
 
 export async function generateMetadata({ params }: PostPageProps) {
@@ -20,21 +27,34 @@ export async function generateMetadata({ params }: PostPageProps) {
   const post = getPostBySlug(slug);
   
   if (!post) {
-    return {
-      title: 'Post Not Found',
-    };
+    const target = getPostByAlias(slug);
+    return target
+      ? {
+          title: `${target.title} - Tero's blog`,
+          robots: { index: false, follow: true },
+          alternates: { canonical: siteUrl(target.slug) },
+        }
+      : {
+          title: 'Post Not Found',
+        };
   }
 
+  const image = getPostImage(post);
+  const { previous, next } = getAdjacentPosts(slug);
+
   return {
     title: `${post.title} - Tero's blog`,
     description: post.excerpt || `Blog post: ${post.title}`,
-    keywords: post.tags,
+    keywords: post.tags.map(getTagLabel),
+    ...(post.status !== 'published' && { robots: { index: false, follow: false } }),
     authors: [{ name: 'Tero Laitinen', url: siteUrl('/about') }],
     alternates: {
       canonical: siteUrl(slug),
-      types: {
-        'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-      },
+      types: feedAlternateTypes,
+    },
+    pagination: {
+      previous: previous ? siteUrl(previous.slug) : null,
+      next: next ? siteUrl(next.slug) : null,
     },
     openGraph: {
       title: post.title,
@@ -42,14 +62,16 @@ export async function generateMetadata({ params }: PostPageProps) {
       url: siteUrl(slug),
       type: 'article',
       publishedTime: post.date,
-      modifiedTime: post.date,
+      modifiedTime: post.updated,
       authors: ['Tero Laitinen'],
-      tags: post.tags,
+      tags: post.tags.map(getTagLabel),
       locale: 'en_US',
       siteName: "Tero's blog",
+      images: [image],
     },
     twitter: {
       card: 'summary_large_image',
+      images: [image],
       creator: '@terolaitinen',
       site: '@terolaitinen',
       title: post.title,
@@ -63,9 +85,15 @@ export default async function PostPage({ params }: PostPageProps) {
   const post = getPostBySlug(slug);
 
   if (!post) {
+    const target = getPostByAlias(slug);
+    if (target) {
+      return <PostRedirect slug={target.slug} title={target.title} />;
+    }
     notFound();
   }
 
+  const series = getSeriesForPost(post);
+
   const jsonLd = {
     '@context': 'https://schema.org',
     '@type': 'BlogPosting',
@@ -77,9 +105,10 @@ export default async function PostPage({ params }: PostPageProps) {
       url: siteUrl('/about'),
     },
     datePublished: post.date,
-    dateModified: post.date,
+    dateModified: post.updated,
     url: siteUrl(slug),
-    keywords: post.tags.join(', '),
+    image: getPostImage(post).url,
+    keywords: post.tags.map(getTagLabel).join(', '),
     mainEntityOfPage: {
       '@type': 'WebPage',
       '@id': siteUrl(slug),
@@ -89,6 +118,13 @@ export default async function PostPage({ params }: PostPageProps) {
       name: 'Tero Laitinen',
       url: siteUrl('/'),
     },
+    ...(series && {
+      isPartOf: {
+        '@type': 'CreativeWorkSeries',
+        name: series.title,
+        url: siteUrl(`/series/${series.slug}`),
+      },
+    }),
   };
 
   return (
@@ -98,13 +134,25 @@ export default async function PostPage({ params }: PostPageProps) {
         dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
       />
       <BlogPost
+        slug={slug}
         title={post.title}
         date={post.date}
+        updated={post.updated}
         tags={post.tags}
         content={post.content}
+        format={post.format}
         readingTime={post.readingTime}
         summary={post.summary}
+        status={post.status}
+        publishAt={post.publishAt}
+        tocDepth={post.tocDepth}
+        series={series ? {
+          title: series.title,
+          slug: series.slug,
+          parts: series.posts.map((part) => ({ slug: part.slug, title: part.title })),
+        } : undefined}
       />
+      <PostNav currentSlug={slug} />
       <RelatedPosts currentSlug={slug} />
     </>
   );
@@ -1,18 +1,19 @@
 import { Metadata } from 'next';
 import { markdownToHtml } from '@/lib/markdown';
 import { getAboutPage } from '@/lib/posts';
-import { siteFileUrl, siteUrl } from '@/lib/site';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
 
 export const metadata: Metadata = {
   title: 'Ab-ut me - Tero\'s blog',
   description: 'About Tero Laitinen - Staff Engineer at Wolt, technical blogger. Writing about software engineering, architecture, and technology.',
   alternates: {
     canonical: siteUrl('/about'),
-    types: {
-      'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-    },
+    types: feedAlternateTypes,
   },
   openGraph: {
+    images: [siteCardImage],
     title: 'About me - Tero\'s blog',
     description: 'About Tero Laitinen - Staff Engineer at Wolt, technical blogger.',
     url: siteUrl('/about'),
@@ -0,0 +1,99 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getArchive, getArchiveYear } from '@/lib/posts';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
+import ArchiveMonths from '@/components/ArchiveMonths';
+
+interface ArchiveYearPageProps {
+  params: Promise<{ year: string }>;
+}
+
+export async function generateStaticParams() {
+  return getArchive().map((archiveYear) => ({
+    year: archiveYear.year,
+  }));
+}
+
+export async function generateMetadata({ params }: ArchiveYearPageProps) {
+  const { year } = await params;
+  const archiveYear = getArchiveYear(year);
+
+  if (!archiveYear) {
+    return {
+      title: 'Year Not Found',
+    };
+  }
+
+  const description = `${archiveYear.count} ${archiveYear.count === 1 ? 'post' : 'posts'} Tero Laitinen published in ${year}.`;
+
+  return {
+    title: `${year} - Archive - Tero's blog`,
+    description,
+    alternates: {
+      canonical: siteUrl(`/archive/${year}`),
+      types: feedAlternateTypes,
+    },
+    openGraph: {
+      images: [siteCardImage],
+      title: `Posts from ${year}`,
+      description,
+      url: siteUrl(`/archive/${year}`),
+      type: 'website',
+      locale: 'en_US',
+      siteName: "Tero's blog",
+    },
+  };
+}
+
+const yearLinkClass =
+  'text-sm font-semibold text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors duration-200';
+
+export default async function ArchiveYearPage({ params }: ArchiveYearPageProps) {
+  const { year } = await params;
+  const archive = getArchive();
+  const index = archive.findIndex((archiveYear) => archiveYear.year === year);
+
+  if (index === -1) {
+    notFound();
+  }
+
+  const archiveYear = archive[index];
+  // The archive is newest first
+  const newerYear = archive[index - 1]?.year;
+  const olderYear = archive[index + 1]?.year;
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-8">
+      <header className="mb-10">
+        <div className="mb-3 text-12 text-metadata font-bold tracking-wide">
+          <Link href="/archive/" className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200">
+            ARCHIVE
+          </Link>{' '}
+          • {archiveYear.count} {archiveYear.count === 1 ? 'POST' : 'POSTS'}
+        </div>
+        <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+          {year}
+        </h1>
+      </header>
+
+      <ArchiveMonths year={year} months={archiveYear.months} headingLevel="h2" />
+
+      <nav aria-label="Archive years" className="mt-12 flex justify-between border-t border-gray-200 dark:border-gray-700 pt-6">
+        {olderYear ? (
+          <Link href={`/archive/${olderYear}/`} className={yearLinkClass}>
+            ← {olderYear}
+          </Link>
+        ) : (
+          <span />
+        )}
+        {newerYear && (
+          <Link href={`/archive/${newerYear}/`} className={yearLinkClass}>
+            {newerYear} →
+          </Link>
+        )}
+      </nav>
+    </div>
+  );
+}
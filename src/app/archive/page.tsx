@@ -0,0 +1,70 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { getAllPosts, getArchive } from '@/lib/posts';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
+import ArchiveMonths from '@/components/ArchiveMonths';
+
+export const metadata: Metadata = {
+  title: "Archive - Tero's blog",
+  description: "All of Tero Laitinen's blog posts by year and month.",
+  alternates: {
+    canonical: siteUrl('/archive'),
+    types: feedAlternateTypes,
+  },
+  openGraph: {
+    images: [siteCardImage],
+    title: "Archive - Tero's blog",
+    description: "All of Tero Laitinen's blog posts by year and month.",
+    url: siteUrl('/archive'),
+    type: 'website',
+    locale: 'en_US',
+    siteName: "Tero's blog",
+  },
+  twitter: {
+    card: 'summary',
+    images: [siteCardImage],
+    creator: '@terolaitinen',
+    site: '@terolaitinen',
+    title: "Archive - Tero's blog",
+    description: "All of Tero Laitinen's blog posts by year and month.",
+  },
+};
+
+export default function ArchivePage() {
+  const archive = getArchive();
+  const totalPosts = getAllPosts().length;
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-8">
+      <header className="mb-10">
+        <h1 className="mb-3 text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+          Archive
+        </h1>
+        <p className="text-17 text-gray-700 dark:text-gray-300 font-blog leading-normal">
+          {totalPosts} {totalPosts === 1 ? 'post' : 'posts'} by date.
+        </p>
+      </header>
+
+      <div className="space-y-12">
+        {archive.map((archiveYear) => (
+          <section key={archiveYear.year}>
+            <h2 className="mb-4 flex items-baseline gap-3 text-2xl font-extrabold font-blog tracking-tight">
+              <Link
+                href={`/archive/${archiveYear.year}/`}
+                className="text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 active:text-blue-700 dark:active:text-blue-500 transition-colors duration-200"
+              >
+                {archiveYear.year}
+              </Link>
+              <span className="text-sm font-semibold text-gray-500 dark:text-gray-400">
+                {archiveYear.count} {archiveYear.count === 1 ? 'post' : 'posts'}
+              </span>
+            </h2>
+            <ArchiveMonths year={archiveYear.year} months={archiveYear.months} headingLevel="h3" />
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
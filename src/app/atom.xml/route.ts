@@ -0,0 +1,42 @@
+import { FEED_DESCRIPTION, FEED_TITLE, escapeXml, feedUpdated, getFeedEntries } from '@/lib/feeds';
+import { siteFileUrl, siteUrl } from '@/lib/site';
+import { getTagLabel } from '@/lib/tag-registry';
+
+export const dynamic = 'force-static';
+
+export async function GET() {
+  const entries = await getFeedEntries();
+
+  const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+  <id>${siteUrl('/')}</id>
+  <title>${escapeXml(FEED_TITLE)}</title>
+  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+  <updated>${feedUpdated(entries).toISOString()}</updated>
+  <link href="${siteUrl('/')}" rel="alternate" type="text/html"/>
+  <link href="${siteFileUrl('/atom.xml')}" rel="self" type="application/atom+xml"/>
+  <author>
+    <name>Tero Laitinen</name>
+    <uri>${siteUrl('/about')}</uri>
+  </author>
+  <icon>${siteFileUrl('/favicon.png')}</icon>
+  ${entries.map(({ post, url, html }) => `
+  <entry>
+    <id>${url}</id>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${url}" rel="alternate" type="text/html"/>
+    <published>${new Date(post.date).toISOString()}</published>
+    <updated>${new Date(post.updated).toISOString()}</updated>
+    <summary>${escapeXml(post.excerpt || '')}</summary>
+    <content type="html">${escapeXml(html)}</content>
+    ${post.tags.map(tag => `<category term="${escapeXml(tag)}" label="${escapeXml(getTagLabel(tag))}"/>`).join('\n    ')}
+  </entry>`).join('')}
+</feed>`;
+
+  return new Response(feed, {
+    headers: {
+      'Content-Type': 'application/atom+xml',
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { FEED_DESCRIPTION, FEED_TITLE, getFeedEntries } from '@/lib/feeds';
+import { siteFileUrl, siteUrl } from '@/lib/site';
+import { getPostImage } from '@/lib/social-card';
+import { getTagLabel } from '@/lib/tag-registry';
+
+export const dynamic = 'force-static';
+
+/** JSON Feed 1.1, https://www.jsonfeed.org/version/1.1/ */
+export async function GET() {
+  const entries = await getFeedEntries();
+
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: FEED_TITLE,
+    home_page_url: siteUrl('/'),
+    feed_url: siteFileUrl('/feed.json'),
+    description: FEED_DESCRIPTION,
+    icon: siteFileUrl('/apple-touch-icon.png'),
+    favicon: siteFileUrl('/favicon.png'),
+    language: 'en',
+    authors: [{ name: 'Tero Laitinen', url: siteUrl('/about') }],
+    items: entries.map(({ post, url, html }) => ({
+      id: url,
+      url,
+      title: post.title,
+      content_html: html,
+      summary: post.excerpt || undefined,
+      image: getPostImage(post).url,
+      date_published: new Date(post.date).toISOString(),
+      date_modified: new Date(post.updated).toISOString(),
+      tags: post.tags.map(getTagLabel),
+    })),
+  };
+
+  return new Response(JSON.stringify(feed), {
+    headers: {
+      'Content-Type': 'application/feed+json',
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+    },
+  });
+}
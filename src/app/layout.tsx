@@ -5,7 +5,9 @@ import "katex/dist/katex.min.css";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import Analytics from "@/components/Analytics";
+import { feedAlternateTypes } from "@/lib/feeds";
 import { SITE_ORIGIN, siteFileUrl, siteUrl } from "@/lib/site";
+import { siteCardImage } from "@/lib/social-card";
 
 const inter = Inter({ 
   subsets: ['latin'],
@@ -32,6 +34,7 @@ export const metadata: Metadata = {
   },
   manifest: '/manifest.webmanifest',
   openGraph: {
+    images: [siteCardImage],
     type: 'website',
     locale: 'en_US',
     url: siteUrl('/'),
@@ -41,6 +44,7 @@ export const metadata: Metadata = {
   },
   twitter: {
     card: 'summary_large_image',
+    images: [siteCardImage],
     creator: '@terolaitinen',
     site: '@terolaitinen',
     title: "Tero's blog",
@@ -48,9 +52,7 @@ export const metadata: Metadata = {
   },
   alternates: {
     canonical: siteUrl('/'),
-    types: {
-      'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-    },
+    types: feedAlternateTypes,
   },
 };
 
@@ -91,6 +93,7 @@ export default function RootLayout({
         <link rel="preconnect" href="https://github.com" />
         <link rel="preconnect" href="https://linkedin.com" />
         <link rel="dns-prefetch" href="https://careers.wolt.com" />
+        <link rel="search" type="application/opensearchdescription+xml" title="Tero's blog" href={siteFileUrl('/opensearch.xml')} />
         <script dangerouslySetInnerHTML={{ __html: themeScript }} />
       </head>
       <body className={`${inter.variable} antialiased bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 font-inter transition-colors`}>
@@ -0,0 +1,10 @@
+import { renderSocialCard } from '@/lib/social-card';
+
+export const dynamic = 'force-static';
+
+export async function GET() {
+  return renderSocialCard({
+    title: 'Articles on software engineering, architecture and technology',
+    meta: ['Tero Laitinen'],
+  });
+}
@@ -0,0 +1,24 @@
+import { siteFileUrl, siteUrl } from '@/lib/site';
+
+export const dynamic = 'force-static';
+
+/** Lets browsers add the blog as a search engine for the address bar. */
+export async function GET() {
+  const description = `<?xml version="1.0" encoding="UTF-8"?>
+<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/" xmlns:moz="http://www.mozilla.org/2006/browser/search/">
+  <ShortName>Tero's blog</ShortName>
+  <Description>Search posts on Tero's blog</Description>
+  <InputEncoding>UTF-8</InputEncoding>
+  <Image type="image/png">${siteFileUrl('/favicon.png')}</Image>
+  <Url type="text/html" method="get" template="${siteUrl('/search')}?q={searchTerms}"/>
+  <Url type="application/opensearchdescription+xml" rel="self" template="${siteFileUrl('/opensearch.xml')}"/>
+  <moz:SearchForm>${siteUrl('/search')}</moz:SearchForm>
+</OpenSearchDescription>`;
+
+  return new Response(description, {
+    headers: {
+      'Content-Type': 'application/opensearchdescription+xml',
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+    },
+  });
+}
@@ -1,6 +1,8 @@
 import { Metadata } from 'next';
 import { getPostsPage } from '@/lib/posts';
-import { siteFileUrl, siteUrl } from '@/lib/site';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
 import PostCard from '@/components/PostCard';
 import Pagination from '@/components/Pagination';
 
@@ -9,11 +11,10 @@ export const metadata: Metadata = {
   description: "Personal technical blog by Tero Laitinen. Articles on software engineering, architecture, and technology.",
   alternates: {
     canonical: siteUrl('/'),
-    types: {
-      'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-    },
+    types: feedAlternateTypes,
   },
   openGraph: {
+    images: [siteCardImage],
     title: "Tero's blog",
     description: "Personal technical blog by Tero Laitinen. Articles on software engineering, architecture, and technology.",
     url: siteUrl('/'),
@@ -23,6 +24,7 @@ export const metadata: Metadata = {
   },
   twitter: {
     card: 'summary_large_image',
+    images: [siteCardImage],
     creator: '@terolaitinen',
     site: '@terolaitinen',
     title: "Tero's blog",
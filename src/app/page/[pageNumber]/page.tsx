@@ -1,6 +1,7 @@
 import { notFound } from 'next/navigation';
 import { getPostsPage } from '@/lib/posts';
-import { siteFileUrl, siteUrl } from '@/lib/site';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
 import PostCard from '@/components/PostCard';
 import Pagination from '@/components/Pagination';
 
@@ -28,9 +29,7 @@ export async function generateMetadata({ params }: PageProps) {
     description: `Read more technical articles by Tero Laitinen on software engineering, architecture, and technology. Page ${page}.`,
     alternates: {
       canonical: siteUrl(`/page/${page}`),
-      types: {
-        'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-      },
+      types: feedAlternateTypes,
     },
   };
 }
@@ -0,0 +1,14 @@
+import { getAllPosts } from '@/lib/posts';
+import { buildSearchIndex } from '@/lib/search-index';
+
+export const dynamic = 'force-static';
+
+export async function GET() {
+  const index = await buildSearchIndex(getAllPosts());
+
+  return Response.json(index, {
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+    },
+  });
+}
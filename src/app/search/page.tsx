@@ -0,0 +1,40 @@
+import { Metadata } from 'next';
+import SearchPage from '@/components/SearchPage';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
+
+export const metadata: Metadata = {
+  title: "Search - Tero's blog",
+  description: "Search Tero Laitinen's blog posts on software engineering, architecture, and technology.",
+  // Results only exist in the browser, so there is nothing here to index
+  robots: { index: false, follow: true },
+  alternates: {
+    canonical: siteUrl('/search'),
+  },
+  openGraph: {
+    images: [siteCardImage],
+    title: "Search - Tero's blog",
+    description: "Search Tero Laitinen's blog posts.",
+    url: siteUrl('/search'),
+    type: 'website',
+    locale: 'en_US',
+    siteName: "Tero's blog",
+  },
+};
+
+export default function Search() {
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-8">
+      <header className="mb-8">
+        <h1 className="mb-3 text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+          Search
+        </h1>
+        <p className="text-17 text-gray-700 dark:text-gray-300 font-blog leading-normal">
+          Find posts by title, tag or anything they say.
+        </p>
+      </header>
+
+      <SearchPage />
+    </div>
+  );
+}
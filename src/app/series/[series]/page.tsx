@@ -0,0 +1,112 @@
+import { notFound } from 'next/navigation';
+import { getAllSeries, getSeriesBySlug } from '@/lib/posts';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
+import PostCard from '@/components/PostCard';
+
+interface SeriesPageProps {
+  params: Promise<{ series: string }>;
+}
+
+export async function generateStaticParams() {
+  return getAllSeries().map((series) => ({
+    series: series.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: SeriesPageProps) {
+  const { series: seriesSlug } = await params;
+  const series = getSeriesBySlug(seriesSlug);
+
+  if (!series) {
+    return {
+      title: 'Series Not Found',
+    };
+  }
+
+  const description = `A ${series.posts.length}-part series by Tero Laitinen: ${series.posts.map((post) => post.title).join('; ')}.`;
+
+  return {
+    title: `${series.title} - Tero's blog`,
+    description,
+    alternates: {
+      canonical: siteUrl(`/series/${series.slug}`),
+      types: feedAlternateTypes,
+    },
+    openGraph: {
+      images: [siteCardImage],
+      title: series.title,
+      description,
+      url: siteUrl(`/series/${series.slug}`),
+      type: 'website',
+      locale: 'en_US',
+      siteName: "Tero's blog",
+    },
+  };
+}
+
+export default async function SeriesPage({ params }: SeriesPageProps) {
+  const { series: seriesSlug } = await params;
+  const series = getSeriesBySlug(seriesSlug);
+
+  if (!series) {
+    notFound();
+  }
+
+  const jsonLd = {
+    '@context': 'https://schema.org',
+    '@type': 'CreativeWorkSeries',
+    name: series.title,
+    url: siteUrl(`/series/${series.slug}`),
+    author: {
+      '@type': 'Person',
+      name: 'Tero Laitinen',
+      url: siteUrl('/about'),
+    },
+    startDate: series.posts.reduce((earliest, post) => (post.date < earliest ? post.date : earliest), series.posts[0].date),
+    hasPart: series.posts.map((post, index) => ({
+      '@type': 'BlogPosting',
+      position: index + 1,
+      headline: post.title,
+      url: siteUrl(post.slug),
+      datePublished: post.date,
+    })),
+  };
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+      />
+      <div className="max-w-3xl mx-auto px-6 py-8">
+        <header className="mb-10">
+          <div className="mb-3 text-12 text-metadata font-bold tracking-wide">
+            SERIES • {series.posts.length} {series.posts.length === 1 ? 'PART' : 'PARTS'}
+          </div>
+          <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+            {series.title}
+          </h1>
+        </header>
+
+        <ol className="space-y-8">
+          {series.posts.map((post, index) => (
+            <li key={post.slug}>
+              <div className="mb-1 text-12 text-metadata font-bold tracking-wide">
+                PART {index + 1}
+              </div>
+              <PostCard
+                title={post.title}
+                slug={post.slug}
+                date={post.date}
+                summary={post.summary}
+                readingTime={post.readingTime}
+              />
+            </li>
+          ))}
+        </ol>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { getAllSeries } from '@/lib/posts';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
+
+export const metadata: Metadata = {
+  title: "Series - Tero's blog",
+  description: "Multi-part article series by Tero Laitinen on software engineering, architecture, and technology.",
+  alternates: {
+    canonical: siteUrl('/series'),
+    types: feedAlternateTypes,
+  },
+  openGraph: {
+    images: [siteCardImage],
+    title: "Series - Tero's blog",
+    description: "Multi-part article series by Tero Laitinen.",
+    url: siteUrl('/series'),
+    type: 'website',
+    locale: 'en_US',
+    siteName: "Tero's blog",
+  },
+  twitter: {
+    card: 'summary',
+    images: [siteCardImage],
+    creator: '@terolaitinen',
+    site: '@terolaitinen',
+    title: "Series - Tero's blog",
+    description: "Multi-part article series by Tero Laitinen.",
+  },
+};
+
+export default function SeriesIndexPage() {
+  const allSeries = getAllSeries();
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-8">
+      <header className="mb-10">
+        <h1 className="mb-3 text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+          Series
+        </h1>
+        <p className="text-17 text-gray-700 dark:text-gray-300 font-blog leading-normal">
+          Posts that build on each other, meant to be read in order.
+        </p>
+      </header>
+
+      <div className="space-y-10">
+        {allSeries.map((series) => (
+          <section key={series.slug}>
+            <div className="mb-2 text-12 text-metadata font-bold tracking-wide">
+              {series.posts.length} {series.posts.length === 1 ? 'PART' : 'PARTS'}
+            </div>
+            <h2 className="mb-3 text-2xl font-extrabold font-blog tracking-tight">
+              <Link
+                href={`/series/${series.slug}/`}
+                className="text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 active:text-blue-700 dark:active:text-blue-500 transition-colors duration-200"
+              >
+                {series.title}
+              </Link>
+            </h2>
+            <ol className="list-decimal space-y-1 pl-6 text-17 text-gray-700 dark:text-gray-300 font-blog">
+              {series.posts.map((post) => (
+                <li key={post.slug}>
+                  <Link
+                    href={`/${post.slug}/`}
+                    className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+                  >
+                    {post.title}
+                  </Link>
+                </li>
+              ))}
+            </ol>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { getAllPosts, getAllTags, getPostsPage } from '@/lib/posts';
+import { getAllPosts, getAllSeries, getAllTags, getArchive, getPostsPage, getTagPostsPage } from '@/lib/posts';
 import { siteUrl } from '@/lib/site';
 import { MetadataRoute } from 'next';
 
@@ -7,10 +7,12 @@ export const dynamic = 'force-static';
 export default function sitemap(): MetadataRoute.Sitemap {
   const posts = getAllPosts();
   const tags = getAllTags();
+  const allSeries = getAllSeries();
+  const archive = getArchive();
 
   const postEntries: MetadataRoute.Sitemap = posts.map((post) => ({
     url: siteUrl(post.slug),
-    lastModified: new Date(post.date),
+    lastModified: new Date(post.updated),
     changeFrequency: 'monthly',
     priority: 0.7,
   }));
@@ -22,6 +24,34 @@ export default function sitemap(): MetadataRoute.Sitemap {
     priority: 0.5,
   }));
 
+  const tagPaginationEntries: MetadataRoute.Sitemap = tags.flatMap((tag) => {
+    const { totalPages } = getTagPostsPage(tag.slug, 1);
+    return Array.from({ length: Math.max(totalPages - 1, 0) }, (_, i) => ({
+      url: siteUrl(`/tags/${tag.slug}/page/${i + 2}`),
+      lastModified: new Date(),
+      changeFrequency: 'weekly' as const,
+      priority: 0.3,
+    }));
+  });
+
+  const seriesEntries: MetadataRoute.Sitemap = allSeries.map((series) => ({
+    url: siteUrl(`/series/${series.slug}`),
+    lastModified: new Date(
+      Math.max(...series.posts.map((post) => new Date(post.updated).getTime()))
+    ),
+    changeFrequency: 'monthly',
+    priority: 0.6,
+  }));
+
+  const archiveEntries: MetadataRoute.Sitemap = archive.map((archiveYear) => ({
+    url: siteUrl(`/archive/${archiveYear.year}`),
+    lastModified: new Date(
+      Math.max(...archiveYear.months.flatMap((month) => month.posts).map((post) => new Date(post.updated).getTime()))
+    ),
+    changeFrequency: 'monthly',
+    priority: 0.4,
+  }));
+
   const firstPage = getPostsPage(1, 5);
   const paginationEntries: MetadataRoute.Sitemap = [];
   for (let i = 2; i <= firstPage.totalPages; i++) {
@@ -52,8 +82,23 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: 'weekly',
       priority: 0.6,
     },
+    {
+      url: siteUrl('/series'),
+      lastModified: new Date(),
+      changeFrequency: 'weekly',
+      priority: 0.6,
+    },
+    {
+      url: siteUrl('/archive'),
+      lastModified: new Date(),
+      changeFrequency: 'weekly',
+      priority: 0.6,
+    },
     ...postEntries,
     ...tagEntries,
+    ...seriesEntries,
+    ...archiveEntries,
     ...paginationEntries,
+    ...tagPaginationEntries,
   ];
 }
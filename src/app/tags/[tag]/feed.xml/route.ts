@@ -0,0 +1,35 @@
+import { notFound } from 'next/navigation';
+import { FEED_TITLE, getFeedEntries, renderRssFeed } from '@/lib/feeds';
+import { markdownToText } from '@/lib/markdown';
+import { getAllTags, getPostsByTag, getTagBySlug } from '@/lib/posts';
+import { siteFileUrl, siteUrl } from '@/lib/site';
+
+export const dynamic = 'force-static';
+
+export async function generateStaticParams() {
+  return getAllTags().map((tag) => ({ tag: tag.slug }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ tag: string }> }) {
+  const { tag } = await params;
+  const tagData = getTagBySlug(tag);
+
+  if (!tagData) {
+    notFound();
+  }
+
+  const feed = renderRssFeed({
+    title: `${FEED_TITLE}: #${tagData.label}`,
+    description: tagData.description ? markdownToText(tagData.description) : `Posts by Tero Laitinen about ${tagData.label}.`,
+    link: siteUrl(`/tags/${tagData.slug}`),
+    feedUrl: siteFileUrl(`/tags/${tagData.slug}/feed.xml`),
+    entries: await getFeedEntries(getPostsByTag(tagData.slug)),
+  });
+
+  return new Response(feed, {
+    headers: {
+      'Content-Type': 'application/xml',
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+    },
+  });
+}
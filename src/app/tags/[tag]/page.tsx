@@ -1,7 +1,9 @@
 import { notFound } from 'next/navigation';
-import { getAllTags, getPostsByTag, getTagBySlug } from '@/lib/posts';
-import { siteFileUrl, siteUrl } from '@/lib/site';
-import PostCard from '@/components/PostCard';
+import { getAllTags, getTagBySlug, getTagPostsPage } from '@/lib/posts';
+import { tagFeedAlternateTypes } from '@/lib/feeds';
+import { markdownToText } from '@/lib/markdown';
+import { siteUrl } from '@/lib/site';
+import TagPostList from '@/components/TagPostList';
 
 interface TagPageProps {
   params: Promise<{ tag: string }>;
@@ -25,12 +27,12 @@ export async function generateMetadata({ params }: TagPageProps) {
 
   return {
     title: `${tagData.label} - Tero's blog`,
-    description: `Explore blog posts about ${tagData.label}. Technical articles, tutorials, and insights by Tero Laitinen on ${tagData.label} and related topics.`,
+    description: tagData.description
+      ? markdownToText(tagData.description)
+      : `Explore blog posts about ${tagData.label}. Technical articles, tutorials, and insights by Tero Laitinen on ${tagData.label} and related topics.`,
     alternates: {
       canonical: siteUrl(`/tags/${tagData.slug}`),
-      types: {
-        'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-      },
+      types: tagFeedAlternateTypes(tagData),
     },
   };
 }
@@ -43,31 +45,5 @@ export default async function TagPage({ params }: TagPageProps) {
     notFound();
   }
 
-  const posts = getPostsByTag(tagData.slug);
-
-  return (
-    <div className="max-w-3xl mx-auto px-6 py-8">
-      <header className="mb-10">
-        <div className="mb-3 text-12 text-metadata font-bold tracking-wide">
-          {tagData.count} {tagData.count === 1 ? 'POST' : 'POSTS'}
-        </div>
-        <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
-          #{tagData.label}
-        </h1>
-      </header>
-
-      <div className="space-y-8">
-        {posts.map((post) => (
-          <PostCard
-            key={post.slug}
-            title={post.title}
-            slug={post.slug}
-            date={post.date}
-            summary={post.summary}
-            readingTime={post.readingTime}
-          />
-        ))}
-      </div>
-    </div>
-  );
+  return <TagPostList tag={tagData} page={getTagPostsPage(tagData.slug, 1)} />;
 }
@@ -0,0 +1,61 @@
+import { notFound } from 'next/navigation';
+import { getAllTags, getTagBySlug, getTagPostsPage } from '@/lib/posts';
+import { tagFeedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import TagPostList from '@/components/TagPostList';
+
+interface TagPageNumberPageProps {
+  params: Promise<{ tag: string; pageNumber: string }>;
+}
+
+export async function generateStaticParams() {
+  const pages = [];
+
+  for (const tag of getAllTags()) {
+    const firstPage = getTagPostsPage(tag.slug, 1);
+    for (let i = 2; i <= firstPage.totalPages; i++) {
+      pages.push({ tag: tag.slug, pageNumber: i.toString() });
+    }
+  }
+
+  return pages;
+}
+
+export async function generateMetadata({ params }: TagPageNumberPageProps) {
+  const { tag, pageNumber } = await params;
+  const tagData = getTagBySlug(tag);
+  const page = parseInt(pageNumber, 10);
+
+  if (!tagData) {
+    return {
+      title: 'Tag Not Found',
+    };
+  }
+
+  return {
+    title: `${tagData.label} - Page ${page} - Tero's blog`,
+    description: `Blog posts about ${tagData.label} by Tero Laitinen. Page ${page}.`,
+    alternates: {
+      canonical: siteUrl(`/tags/${tagData.slug}/page/${page}`),
+      types: tagFeedAlternateTypes(tagData),
+    },
+  };
+}
+
+export default async function TagPageNumberPage({ params }: TagPageNumberPageProps) {
+  const { tag, pageNumber } = await params;
+  const tagData = getTagBySlug(tag);
+  const page = parseInt(pageNumber, 10);
+
+  if (!tagData || isNaN(page) || page < 1) {
+    notFound();
+  }
+
+  const pageData = getTagPostsPage(tagData.slug, page);
+
+  if (pageData.posts.length === 0) {
+    notFound();
+  }
+
+  return <TagPostList tag={tagData} page={pageData} />;
+}
@@ -1,18 +1,20 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
 import { getAllTags } from '@/lib/posts';
-import { siteFileUrl, siteUrl } from '@/lib/site';
+import { markdownToText } from '@/lib/markdown';
+import { feedAlternateTypes } from '@/lib/feeds';
+import { siteUrl } from '@/lib/site';
+import { siteCardImage } from '@/lib/social-card';
 
 export const metadata: Metadata = {
   title: "Tags - Tero's blog",
   description: "Browse Tero Laitinen's blog posts by topic. Explore articles on software engineering, architecture, and technology.",
   alternates: {
     canonical: siteUrl('/tags'),
-    types: {
-      'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: "Tero's blog" }],
-    },
+    types: feedAlternateTypes,
   },
   openGraph: {
+    images: [siteCardImage],
     title: "Tags - Tero's blog",
     description: "Browse Tero Laitinen's blog posts by topic.",
     url: siteUrl('/tags'),
@@ -22,6 +24,7 @@ export const metadata: Metadata = {
   },
   twitter: {
     card: 'summary',
+    images: [siteCardImage],
     creator: '@terolaitinen',
     site: '@terolaitinen',
     title: "Tags - Tero's blog",
@@ -43,18 +46,26 @@ export default function TagsPage() {
         </p>
       </header>
 
-      <div className="flex flex-wrap gap-3">
+      <ul className="grid gap-3 sm:grid-cols-2">
         {tags.map((tag) => (
-          <Link
-            key={tag.slug}
-            href={`/tags/${tag.slug}/`}
-            className="inline-flex items-center gap-2 rounded-md border border-gray-200 px-3 py-2 text-sm font-semibold text-gray-700 transition-colors duration-200 hover:border-blue-300 hover:text-blue-600 active:text-blue-700 dark:border-gray-700 dark:text-gray-300 dark:hover:border-blue-500 dark:hover:text-blue-400 dark:active:text-blue-500"
-          >
-            <span>#{tag.label}</span>
-            <span className="text-xs text-gray-500 dark:text-gray-400">{tag.count}</span>
-          </Link>
+          <li key={tag.slug}>
+            <Link
+              href={`/tags/${tag.slug}/`}
+              className="group block h-full rounded-md border border-gray-200 px-4 py-3 transition-colors duration-200 hover:border-blue-300 dark:border-gray-700 dark:hover:border-blue-500"
+            >
+              <span className="flex items-baseline justify-between gap-2 text-sm font-semibold text-gray-700 group-hover:text-blue-600 dark:text-gray-300 dark:group-hover:text-blue-400">
+                <span>#{tag.label}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{tag.count}</span>
+              </span>
+              {tag.description && (
+                <span className="mt-1 block text-sm leading-snug text-gray-600 dark:text-gray-400">
+                  {markdownToText(tag.description)}
+                </span>
+              )}
+            </Link>
+          </li>
         ))}
-      </div>
+      </ul>
     </div>
   );
 }
@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+import type { ArchiveMonth } from '@/lib/posts';
+
+interface ArchiveMonthsProps {
+  year: string;
+  months: ArchiveMonth[];
+  /** Heading level for the month names, below the page's or year's heading. */
+  headingLevel: 'h2' | 'h3';
+}
+
+export default function ArchiveMonths({ year, months, headingLevel: Heading }: ArchiveMonthsProps) {
+  return (
+    <div className="space-y-6">
+      {months.map(({ month, posts }) => (
+        <section key={month}>
+          <Heading className="mb-2 text-12 text-metadata font-bold tracking-wide">
+            {format(new Date(Number(year), month - 1), 'MMMM').toUpperCase()} • {posts.length}{' '}
+            {posts.length === 1 ? 'POST' : 'POSTS'}
+          </Heading>
+          <ul className="space-y-2 text-17 font-blog">
+            {posts.map((post) => (
+              <li key={post.slug} className="flex gap-4">
+                <time dateTime={post.date} className="w-6 shrink-0 pt-0.5 text-right text-sm tabular-nums text-gray-500 dark:text-gray-400">
+                  {Number(post.date.slice(8, 10))}
+                </time>
+                <Link
+                  href={`/${post.slug}/`}
+                  className="text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+                >
+                  {post.title}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
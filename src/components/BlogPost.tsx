@@ -1,17 +1,37 @@
-import { markdownToHtml } from '@/lib/markdown';
+import { markdownToHtml, renderMarkdown } from '@/lib/markdown';
+import { renderMdx } from '@/lib/mdx';
 import { format } from 'date-fns';
-import { extractToc } from '@/lib/toc';
-import MermaidDiagram from './MermaidDiagram';
+import { DEFAULT_TOC_DEPTH, type TocDepth } from '@/lib/toc';
+import type { PostFormat, PostStatus } from '@/lib/posts';
+import MermaidChart from './MermaidChart';
 import TagList from './TagList';
 import TableOfContents from './TableOfContents';
+import SeriesNav from './SeriesNav';
+import CodeBlockEnhancer from './CodeBlockEnhancer';
+import ImageLightbox from './ImageLightbox';
+import HeadingAnchors from './HeadingAnchors';
+
+interface BlogPostSeries {
+  title: string;
+  slug: string;
+  parts: { slug: string; title: string }[];
+}
 
 interface BlogPostProps {
+  slug: string;
   title: string;
   date: string;
+  updated?: string;
   tags: string[];
   content: string;
+  format?: PostFormat;
   readingTime: number;
   summary?: string;
+  status?: PostStatus;
+  publishAt?: string;
+  series?: BlogPostSeries;
+  /** Deepest heading level in the table of contents, or null to hide it. */
+  tocDepth?: TocDepth | null;
 }
 
 function renderParts(parts: string[]) {
@@ -20,26 +40,59 @@ function renderParts(parts: string[]) {
     if (mermaidMatch) {
       const encodedChart = mermaidMatch[1];
       const chart = Buffer.from(encodedChart, 'base64').toString('utf-8');
-      return <MermaidDiagram key={index} chart={chart} />;
+      return <MermaidChart key={index} chart={chart} />;
     }
     return <div key={index} dangerouslySetInnerHTML={{ __html: part }} />;
   });
 }
 
-export default async function BlogPost({ title, date, tags, content, readingTime, summary }: BlogPostProps) {
-  const [htmlContent, summaryHtml] = await Promise.all([
-    markdownToHtml(content),
+function StatusBanner({ status, publishAt }: { status: PostStatus; publishAt?: string }) {
+  if (status === 'published') return null;
+
+  const label = status === 'draft' ? 'DRAFT' : 'SCHEDULED';
+  const detail = status === 'draft'
+    ? 'This post is a draft and is only visible in preview mode.'
+    : `This post is scheduled for ${format(new Date(publishAt ?? ''), 'MMM d, yyyy HH:mm')} and is only visible in preview mode.`;
+
+  return (
+    <div
+      role="status"
+      className="mb-8 rounded-md border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-500/60 dark:bg-amber-500/10 dark:text-amber-200"
+    >
+      <span className="mr-2 font-bold tracking-wide">{label}</span>
+      {detail}
+    </div>
+  );
+}
+
+export default async function BlogPost({ slug, title, date, updated, tags, content, format: contentFormat = 'md', readingTime, summary, status = 'published', publishAt, series, tocDepth = DEFAULT_TOC_DEPTH }: BlogPostProps) {
+  const depth = tocDepth ?? undefined;
+  const [{ body, toc }, summaryHtml] = await Promise.all([
+    contentFormat === 'mdx'
+      ? renderMdx(content, depth).then((result) => ({ body: result.content, toc: result.toc }))
+      : renderMarkdown(content, depth).then((result) => ({ body: result.html, toc: result.toc })),
     summary ? markdownToHtml(summary) : Promise.resolve(''),
   ]);
 
   const formattedDate = format(new Date(date), 'MMM d, yyyy').toUpperCase();
-  const tocItems = extractToc(content);
+  const formattedUpdated = updated ? format(new Date(updated), 'MMM d, yyyy').toUpperCase() : null;
+  const showUpdated = formattedUpdated !== null && formattedUpdated !== formattedDate;
+  const tocItems = tocDepth === null ? [] : toc;
 
   return (
-    <article className="max-w-3xl mx-auto px-6 py-8">
+    <article className="relative max-w-3xl mx-auto px-6 py-8">
+      <StatusBanner status={status} publishAt={publishAt} />
       <header className="mb-10 text-center">
         <div className="flex items-center justify-center gap-2 text-12 mb-6 text-metadata font-bold tracking-wide">
           <time dateTime={date}>{formattedDate}</time>
+          {showUpdated && (
+            <>
+              <span>•</span>
+              <span>
+                UPDATED <time dateTime={updated}>{formattedUpdated}</time>
+              </span>
+            </>
+          )}
           <span>•</span>
           <span>{readingTime} MIN READ</span>
         </div>
@@ -54,11 +107,20 @@ export default async function BlogPost({ title, date, tags, content, readingTime
         </div>
       )}
 
+      {series && (
+        <SeriesNav title={series.title} slug={series.slug} parts={series.parts} currentSlug={slug} />
+      )}
+
       {tocItems.length > 0 && <TableOfContents items={tocItems} />}
 
       <div className="prose">
-        {renderParts(htmlContent.split(/(<div data-mermaid-chart="[^"]*"><\/div>)/))}
+        {typeof body === 'string'
+          ? renderParts(body.split(/(<div data-mermaid-chart="[^"]*"><\/div>)/))
+          : body}
       </div>
+      <CodeBlockEnhancer />
+      <ImageLightbox />
+      <HeadingAnchors />
       {tags.length > 0 && (
         <footer className="mt-10 border-t border-gray-200 pt-6 dark:border-gray-700">
           <TagList tags={tags} />
@@ -0,0 +1,21 @@
+import type { ReactNode } from 'react';
+import { calloutTitles, type CalloutType } from '@/lib/remark-callouts';
+
+interface CalloutProps {
+  type?: CalloutType;
+  title?: string;
+  children: ReactNode;
+}
+
+/**
+ * MDX counterpart of the `:::note`, `:::tip` and `:::warning` directives,
+ * rendering the same markup so both share the `.callout` styles.
+ */
+export default function Callout({ type = 'note', title, children }: CalloutProps) {
+  return (
+    <aside role="note" className={`callout callout-${type}`}>
+      <p className="callout-title">{title ?? calloutTitles[type]}</p>
+      {children}
+    </aside>
+  );
+}
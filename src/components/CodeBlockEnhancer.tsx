@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Text of a code block as it should land on the clipboard: one entry per
+ * `.code-line`, leaving out lines a diff removes.
+ */
+function getCodeText(block: Element): string {
+  const lines = Array.from(block.querySelectorAll('.code-line'));
+
+  if (lines.length === 0) {
+    return block.querySelector('pre')?.textContent ?? '';
+  }
+
+  return lines
+    .filter((line) => !line.classList.contains('diff-remove'))
+    .map((line) => line.textContent ?? '')
+    .join('\n');
+}
+
+/**
+ * Reveals the copy buttons `rehypeCodeBlocks` renders hidden and handles
+ * their clicks. Renders nothing itself.
+ */
+export default function CodeBlockEnhancer() {
+  useEffect(() => {
+    const buttons = document.querySelectorAll<HTMLButtonElement>('[data-copy-code]');
+    buttons.forEach((button) => {
+      button.hidden = false;
+    });
+
+    const clickHandler = async (e: MouseEvent) => {
+      const button = (e.target as Element | null)?.closest<HTMLButtonElement>('[data-copy-code]');
+      const block = button?.closest('.code-block');
+      if (!button || !block) return;
+
+      try {
+        await navigator.clipboard.writeText(getCodeText(block));
+        button.textContent = 'Copied';
+      } catch {
+        button.textContent = 'Copy failed';
+      }
+
+      setTimeout(() => {
+        button.textContent = 'Copy';
+      }, 2000);
+    };
+
+    document.addEventListener('click', clickHandler);
+    return () => document.removeEventListener('click', clickHandler);
+  }, []);
+
+  return null;
+}
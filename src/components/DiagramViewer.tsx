@@ -0,0 +1,238 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+
+interface DiagramViewerProps {
+  /** Mermaid source offered by the "copy source" action. */
+  source: string;
+  children: ReactNode;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 5;
+const ZOOM_STEP = 1.25;
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+const buttonClass =
+  'rounded-md px-2 py-1 text-xs font-semibold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-blue-600 dark:hover:text-blue-400 transition-colors';
+
+/**
+ * Zoom, pan, fullscreen and copy-source controls around a diagram.
+ *
+ * Inline, the page keeps normal scrolling: the wheel zooms only with Ctrl/Cmd
+ * held (which is also how trackpad pinches arrive), and touch panning starts
+ * once the diagram is zoomed in. In fullscreen every wheel, drag and pinch
+ * goes to the diagram, which is rendered into <body> as a modal dialog that
+ * keeps focus until it is closed.
+ */
+export default function DiagramViewer({ source, children }: DiagramViewerProps) {
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  const [fullscreen, setFullscreen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // Keeps the page from shifting while the diagram is out of the flow
+  const [placeholderHeight, setPlaceholderHeight] = useState(0);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  const hasOpened = useRef(false);
+  const pointers = useRef(new Map<number, Point>());
+
+  const interactive = fullscreen || scale !== 1;
+
+  const zoomBy = useCallback((factor: number) => {
+    setScale((current) => clampScale(current * factor));
+  }, []);
+
+  const reset = useCallback(() => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  }, []);
+
+  // Wheel listeners must be non-passive to keep the page from scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handler = (e: WheelEvent) => {
+      if (!fullscreen && !e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const delta = Math.max(-50, Math.min(50, e.deltaY));
+      zoomBy(Math.exp(-delta * 0.01));
+    };
+
+    viewport.addEventListener('wheel', handler, { passive: false });
+    return () => viewport.removeEventListener('wheel', handler);
+  }, [fullscreen, zoomBy]);
+
+  useEffect(() => {
+    if (!fullscreen) return;
+
+    const keyHandler = (e: KeyboardEvent) => {
+      // Keys already handled by, or typed into, an overlay opened on top (such
+      // as the search palette) are not for the diagram
+      const target = e.target instanceof Node ? e.target : null;
+      if (e.defaultPrevented || (target && target !== document.body && !frameRef.current?.contains(target))) return;
+
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setFullscreen(false);
+      }
+      if (e.key === '+' || e.key === '=') zoomBy(ZOOM_STEP);
+      if (e.key === '-') zoomBy(1 / ZOOM_STEP);
+      if (e.key === '0') reset();
+
+      // Keep focus inside the dialog
+      if (e.key === 'Tab' && frameRef.current) {
+        const focusable = Array.from(frameRef.current.querySelectorAll<HTMLElement>('button'));
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    document.addEventListener('keydown', keyHandler);
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      document.removeEventListener('keydown', keyHandler);
+    };
+  }, [fullscreen, zoomBy, reset]);
+
+  // The toggle is the Close button in fullscreen and Fullscreen again after
+  useEffect(() => {
+    if (fullscreen) hasOpened.current = true;
+    if (hasOpened.current) toggleRef.current?.focus();
+  }, [fullscreen]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (interactive || pointers.current.size > 1) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+
+    const current = { x: e.clientX, y: e.clientY };
+
+    if (pointers.current.size === 2) {
+      const [other] = Array.from(pointers.current.entries())
+        .filter(([id]) => id !== e.pointerId)
+        .map(([, point]) => point);
+      const before = distance(previous, other);
+      if (before > 0) {
+        zoomBy(distance(current, other) / before);
+      }
+    } else if (pointers.current.size === 1 && interactive) {
+      setOffset((o) => ({ x: o.x + current.x - previous.x, y: o.y + current.y - previous.y }));
+    }
+
+    pointers.current.set(e.pointerId, current);
+  };
+
+  const onPointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const copySource = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the button simply does nothing
+    }
+  };
+
+  const toggleFullscreen = () => {
+    reset();
+    if (!fullscreen) setPlaceholderHeight(frameRef.current?.offsetHeight ?? 0);
+    setFullscreen(!fullscreen);
+  };
+
+  const frame = (
+    <div
+      ref={frameRef}
+      role={fullscreen ? 'dialog' : undefined}
+      aria-modal={fullscreen || undefined}
+      aria-label={fullscreen ? 'Diagram' : undefined}
+      className={
+        fullscreen
+          ? 'fixed inset-0 z-50 flex flex-col bg-white dark:bg-gray-900 p-4'
+          : 'my-6 rounded-md border border-transparent hover:border-gray-200 dark:hover:border-gray-700 transition-colors'
+      }
+    >
+      <div className="flex flex-wrap justify-end gap-1 px-1 pt-1" role="toolbar" aria-label="Diagram controls">
+        <button type="button" className={buttonClass} onClick={() => zoomBy(1 / ZOOM_STEP)} aria-label="Zoom out">
+          −
+        </button>
+        <button type="button" className={buttonClass} onClick={reset} aria-label="Reset zoom">
+          {Math.round(scale * 100)}%
+        </button>
+        <button type="button" className={buttonClass} onClick={() => zoomBy(ZOOM_STEP)} aria-label="Zoom in">
+          +
+        </button>
+        <button type="button" className={buttonClass} onClick={copySource} aria-live="polite">
+          {copied ? 'Copied' : 'Copy source'}
+        </button>
+        <button ref={toggleRef} type="button" className={buttonClass} onClick={toggleFullscreen}>
+          {fullscreen ? 'Close' : 'Fullscreen'}
+        </button>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className={`overflow-hidden ${fullscreen ? 'flex-1' : ''} ${interactive ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        style={{ touchAction: interactive ? 'none' : 'pan-x pan-y' }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerEnd}
+        onPointerCancel={onPointerEnd}
+      >
+        <div
+          className={fullscreen ? 'flex h-full items-center justify-center' : ''}
+          style={{
+            transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+            transformOrigin: 'center',
+          }}
+        >
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+
+  // Out of .prose, so no transformed ancestor can confine `position: fixed`
+  return fullscreen ? (
+    <>
+      <div className="my-6" style={{ height: placeholderHeight }} />
+      {createPortal(frame, document.body)}
+    </>
+  ) : (
+    frame
+  );
+}
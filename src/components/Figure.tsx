@@ -0,0 +1,46 @@
+import { IMAGE_SIZES, getImageInfo } from '@/lib/images';
+
+interface FigureProps {
+  src: string;
+  alt: string;
+  caption?: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * MDX counterpart of a standalone Markdown image, rendering the same markup
+ * as `rehypeFigures` and `rehypeResponsiveImages` so it gets the same
+ * variants, styles and lightbox.
+ */
+export default function Figure({ src, alt, caption, width, height }: FigureProps) {
+  const info = getImageInfo(src);
+  // Like a Markdown image's title, falling back to the alt text
+  const figcaption = caption || alt;
+
+  return (
+    <figure className="post-figure">
+      <a
+        href={info?.original ?? src}
+        className="figure-zoom"
+        data-figure-zoom
+        aria-label={alt ? `Enlarge image: ${alt}` : 'Enlarge image'}
+      >
+        <picture>
+          {info?.sources.map((source) => (
+            <source key={source.type} type={source.type} srcSet={source.srcset} sizes={IMAGE_SIZES} />
+          ))}
+          <img
+            src={src}
+            alt={alt}
+            width={width ?? info?.width}
+            height={height ?? info?.height}
+            loading="lazy"
+            decoding="async"
+          />
+        </picture>
+      </a>
+      {figcaption && <figcaption>{figcaption}</figcaption>}
+    </figure>
+  );
+}
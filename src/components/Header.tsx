@@ -1,4 +1,5 @@
 import Link from 'next/link';
+import SearchPalette from './SearchPalette';
 import ThemeToggle from './ThemeToggle';
 
 export default function Header() {
@@ -17,11 +18,17 @@ export default function Header() {
               <Link href="/tags/" className="text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 active:text-blue-700 dark:active:text-blue-500 transition-colors duration-200 font-semibold">
                 Tags
               </Link>
+              <Link href="/archive/" className="text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 active:text-blue-700 dark:active:text-blue-500 transition-colors duration-200 font-semibold">
+                Archive
+              </Link>
               <Link href="/about/" className="text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 active:text-blue-700 dark:active:text-blue-500 transition-colors duration-200 font-semibold">
                 About
               </Link>
             </nav>
-            <ThemeToggle />
+            <div className="flex items-center">
+              <SearchPalette />
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Copies the deep URL of a heading when its "#" link from
+ * `rehypeHeadingAnchors` is clicked. The link still navigates, so the address
+ * bar shows the same URL. Renders nothing itself.
+ */
+export default function HeadingAnchors() {
+  useEffect(() => {
+    const clickHandler = async (e: MouseEvent) => {
+      const link = (e.target as Element | null)?.closest<HTMLAnchorElement>('[data-heading-anchor]');
+      if (!link) return;
+
+      const url = `${window.location.origin}${window.location.pathname}${link.hash}`;
+
+      try {
+        await navigator.clipboard.writeText(url);
+        link.dataset.copied = 'true';
+        setTimeout(() => {
+          delete link.dataset.copied;
+        }, 2000);
+      } catch {
+        // Clipboard access can be denied; the link still navigates
+      }
+    };
+
+    document.addEventListener('click', clickHandler);
+    return () => document.removeEventListener('click', clickHandler);
+  }, []);
+
+  return null;
+}
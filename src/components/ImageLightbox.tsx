@@ -0,0 +1,176 @@
+'use client';
+
+import Image from 'next/image';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface LightboxImage {
+  src: string;
+  alt: string;
+  caption: string;
+  /** Intrinsic size, or 0 when neither the markup nor the loaded image tells it. */
+  width: number;
+  height: number;
+}
+
+function toLightboxImage(link: HTMLAnchorElement): LightboxImage {
+  const img = link.querySelector('img');
+  return {
+    src: link.href,
+    alt: img?.alt ?? '',
+    caption: link.closest('figure')?.querySelector('figcaption')?.textContent ?? '',
+    width: Number(img?.getAttribute('width')) || img?.naturalWidth || 0,
+    height: Number(img?.getAttribute('height')) || img?.naturalHeight || 0,
+  };
+}
+
+const buttonClass =
+  'rounded-md px-3 py-1 text-sm font-semibold text-gray-200 hover:bg-white/10 hover:text-white transition-colors';
+
+/**
+ * Opens the full-resolution original behind a figure's link in a modal
+ * instead of navigating to it. Arrow keys and the previous/next buttons move
+ * between the figures on the page, Escape closes, and focus returns to the
+ * figure that opened it. Without JavaScript the link opens the image itself.
+ */
+export default function ImageLightbox() {
+  const [images, setImages] = useState<LightboxImage[]>([]);
+  const [index, setIndex] = useState<number | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const triggerRef = useRef<HTMLElement | null>(null);
+
+  const close = useCallback(() => {
+    setIndex(null);
+    triggerRef.current?.focus();
+  }, []);
+
+  const step = useCallback(
+    (delta: number) => {
+      // Wraps around at either end
+      setIndex((current) =>
+        current === null ? null : (current + delta + images.length) % images.length
+      );
+    },
+    [images.length]
+  );
+
+  useEffect(() => {
+    const clickHandler = (e: MouseEvent) => {
+      // Modified clicks keep their usual meaning, such as opening a new tab
+      if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+      const link = (e.target as Element | null)?.closest<HTMLAnchorElement>('[data-figure-zoom]');
+      if (!link) return;
+
+      e.preventDefault();
+      const links = Array.from(document.querySelectorAll<HTMLAnchorElement>('[data-figure-zoom]'));
+      triggerRef.current = link;
+      setImages(links.map(toLightboxImage));
+      setIndex(links.indexOf(link));
+    };
+
+    document.addEventListener('click', clickHandler);
+    return () => document.removeEventListener('click', clickHandler);
+  }, []);
+
+  const isOpen = index !== null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const keyHandler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+      if (e.key === 'ArrowLeft') step(-1);
+      if (e.key === 'ArrowRight') step(1);
+
+      // Keep focus inside the dialog
+      if (e.key === 'Tab' && dialogRef.current) {
+        const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>('button'));
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    document.addEventListener('keydown', keyHandler);
+    closeRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      document.removeEventListener('keydown', keyHandler);
+    };
+  }, [isOpen, close, step]);
+
+  if (index === null || !images[index]) {
+    return null;
+  }
+
+  const image = images[index];
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={image.caption || image.alt || 'Image'}
+      className="fixed inset-0 z-50 flex flex-col bg-black/90 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) close();
+      }}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-gray-300" aria-live="polite">
+          {index + 1} / {images.length}
+        </span>
+        <div className="flex gap-1">
+          {images.length > 1 && (
+            <>
+              <button type="button" className={buttonClass} onClick={() => step(-1)}>
+                Previous
+              </button>
+              <button type="button" className={buttonClass} onClick={() => step(1)}>
+                Next
+              </button>
+            </>
+          )}
+          <button ref={closeRef} type="button" className={buttonClass} onClick={close}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div
+        className="flex min-h-0 flex-1 items-center justify-center py-4"
+        onClick={(e) => {
+          if (e.target === e.currentTarget) close();
+        }}
+      >
+        {image.width && image.height ? (
+          <Image
+            src={image.src}
+            alt={image.alt}
+            width={image.width}
+            height={image.height}
+            unoptimized
+            className="h-auto max-h-full w-auto max-w-full object-contain"
+          />
+        ) : (
+          // Unknown size: fill the area, letterboxed
+          <span className="relative h-full w-full">
+            <Image src={image.src} alt={image.alt} fill unoptimized className="object-contain" />
+          </span>
+        )}
+      </div>
+
+      {image.caption && <p className="text-center text-sm text-gray-200">{image.caption}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { getPrerenderedMermaid } from '@/lib/mermaid';
+import DiagramViewer from './DiagramViewer';
+import MermaidDiagram from './MermaidDiagram';
+
+interface MermaidChartProps {
+  chart: string;
+}
+
+/**
+ * Inlines the SVGs rendered by `scripts/prerender-mermaid.js`, letting the
+ * `dark` class pick the variant. Charts without a pre-rendered SVG fall back
+ * to rendering in the browser.
+ */
+export default function MermaidChart({ chart }: MermaidChartProps) {
+  const prerendered = getPrerenderedMermaid(chart);
+
+  return (
+    <DiagramViewer source={chart}>
+      {prerendered ? (
+        <div className="mermaid-static">
+          <div className="mermaid-light" dangerouslySetInnerHTML={{ __html: prerendered.light }} />
+          <div className="mermaid-dark" dangerouslySetInnerHTML={{ __html: prerendered.dark }} />
+        </div>
+      ) : (
+        <MermaidDiagram chart={chart} />
+      )}
+    </DiagramViewer>
+  );
+}
@@ -1,71 +1,96 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import mermaid from 'mermaid';
+import { useEffect, useState } from 'react';
+import mermaidThemes from '@/lib/mermaid-themes.json';
 
 interface MermaidDiagramProps {
   chart: string;
 }
 
 function getThemeVariables(isDark: boolean) {
-  if (isDark) {
-    return {
-      primaryColor: '#1f2937',
-      primaryTextColor: '#f3f4f6',
-      primaryBorderColor: '#9ca3af',
-      secondaryBorderColor: '#9ca3af',
-      tertiaryBorderColor: '#9ca3af',
-      lineColor: '#d1d5db',
-      background: '#111827',
-      mainBkg: '#1f2937',
-      fontSize: '24px',
-    };
-  }
-  return {
-    primaryColor: '#ffffff',
-    primaryTextColor: '#1f2937',
-    primaryBorderColor: '#374151',
-    secondaryBorderColor: '#374151',
-    tertiaryBorderColor: '#374151',
-    lineColor: '#4b5563',
-    background: '#ffffff',
-    mainBkg: '#ffffff',
-    fontSize: '24px',
-  };
+  return isDark ? mermaidThemes.dark : mermaidThemes.light;
 }
 
-export default function MermaidDiagram({ chart }: MermaidDiagramProps) {
-  const ref = useRef<HTMLDivElement>(null);
+function isDarkTheme(): boolean {
+  return document.documentElement.classList.contains('dark');
+}
+
+/**
+ * Tracks the `dark` class ThemeToggle sets on <html>, so diagrams re-render
+ * in the new palette without a reload.
+ */
+function useIsDark(): boolean | null {
+  const [isDark, setIsDark] = useState<boolean | null>(null);
 
   useEffect(() => {
-    if (!ref.current) return;
+    setIsDark(isDarkTheme());
+
+    const observer = new MutationObserver(() => setIsDark(isDarkTheme()));
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class'] });
+    return () => observer.disconnect();
+  }, []);
+
+  return isDark;
+}
+
+export default function MermaidDiagram({ chart }: MermaidDiagramProps) {
+  const isDark = useIsDark();
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-    const isDark = document.documentElement.classList.contains('dark');
-    const themeVariables = getThemeVariables(isDark);
+  useEffect(() => {
+    if (isDark === null) return;
 
-    mermaid.initialize({
-      startOnLoad: false,
-      theme: 'base',
-      themeVariables,
-    });
+    let cancelled = false;
 
     const renderChart = async () => {
       try {
+        // Loaded on demand: only charts that failed to pre-render reach this
+        const { default: mermaid } = await import('mermaid');
+        mermaid.initialize({
+          startOnLoad: false,
+          theme: 'base',
+          themeVariables: getThemeVariables(isDark),
+        });
+
         const id = 'mermaid-' + Math.random().toString(36).substring(2, 11);
         const { svg } = await mermaid.render(id, chart);
-        if (ref.current) {
-          ref.current.innerHTML = svg;
+        if (!cancelled) {
+          setSvg(svg);
+          setError(null);
         }
       } catch (error) {
         console.error('Mermaid rendering error:', error);
-        if (ref.current) {
-          ref.current.innerHTML = `<pre class="text-red-500">Error rendering diagram: ${error}</pre>`;
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : String(error));
         }
       }
     };
 
     renderChart();
-  }, [chart]);
+    return () => {
+      cancelled = true;
+    };
+  }, [chart, isDark]);
 
-  return <div ref={ref} className="my-6 flex justify-center" />;
-}
\ No newline at end of file
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800 dark:border-red-500/40 dark:bg-red-500/10 dark:text-red-200"
+      >
+        <p className="font-semibold">This diagram could not be rendered.</p>
+        <details className="mt-2">
+          <summary className="cursor-pointer">Details</summary>
+          <p className="mt-2 whitespace-pre-wrap font-mono text-xs">{error}</p>
+        </details>
+      </div>
+    );
+  }
+
+  if (!svg) {
+    return <div className="min-h-24" aria-busy="true" />;
+  }
+
+  return <div className="flex justify-center" dangerouslySetInnerHTML={{ __html: svg }} />;
+}
@@ -5,9 +5,11 @@ interface PaginationProps {
   totalPages: number;
   hasNextPage: boolean;
   hasPrevPage: boolean;
+  /** Path of the first page, e.g. `/tags/react/`; later pages are under `page/`. */
+  basePath?: string;
 }
 
-export default function Pagination({ currentPage, totalPages, hasNextPage, hasPrevPage }: PaginationProps) {
+export default function Pagination({ currentPage, totalPages, hasNextPage, hasPrevPage, basePath = '/' }: PaginationProps) {
   if (totalPages <= 1) return null;
 
   return (
@@ -15,7 +17,7 @@ export default function Pagination({ currentPage, totalPages, hasNextPage, hasPr
       <div className="flex items-center">
         {hasPrevPage ? (
           <Link
-            href={currentPage === 2 ? '/' : `/page/${currentPage - 1}/`}
+            href={currentPage === 2 ? basePath : `${basePath}page/${currentPage - 1}/`}
             className="px-4 py-2 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 active:text-blue-800 dark:active:text-blue-200 font-medium transition-colors duration-200"
           >
             ← Newer posts
@@ -34,7 +36,7 @@ export default function Pagination({ currentPage, totalPages, hasNextPage, hasPr
       <div className="flex items-center">
         {hasNextPage ? (
           <Link
-            href={`/page/${currentPage + 1}/`}
+            href={`${basePath}page/${currentPage + 1}/`}
             className="px-4 py-2 text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 active:text-blue-800 dark:active:text-blue-200 font-medium transition-colors duration-200"
           >
             Older posts →
@@ -0,0 +1,56 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { getAdjacentPosts, type Post } from "@/lib/posts";
+
+interface PostNavProps {
+  currentSlug: string;
+}
+
+interface PostNavLinkProps {
+  post: Post;
+  label: string;
+  rel: "prev" | "next";
+}
+
+function PostNavLink({ post, label, rel }: PostNavLinkProps) {
+  return (
+    <Link
+      href={`/${post.slug}/`}
+      rel={rel}
+      className={`group block rounded-md border border-gray-200 px-5 py-4 transition-colors duration-200 hover:border-blue-600 dark:border-gray-700 dark:hover:border-blue-400 ${
+        rel === "next" ? "sm:text-right" : ""
+      }`}
+    >
+      <span className="block text-12 mb-2 text-metadata font-bold tracking-wide">{label}</span>
+      <span className="block text-lg font-bold font-blog tracking-tight text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors duration-200">
+        {post.title}
+      </span>
+      <span className="mt-2 block text-12 text-metadata font-bold tracking-wide">
+        <time dateTime={post.date}>{format(new Date(post.date), "MMM d, yyyy").toUpperCase()}</time>
+        {" • "}
+        {post.readingTime} MIN READ
+      </span>
+    </Link>
+  );
+}
+
+/**
+ * Links to the previous (older) and next (newer) post, so the archive can be
+ * read in order. Posts with `navigationTag` link within that tag instead.
+ */
+export default function PostNav({ currentSlug }: PostNavProps) {
+  const { previous, next, tag } = getAdjacentPosts(currentSlug);
+
+  if (!previous && !next) return null;
+
+  const scope = tag ? ` IN #${tag.label.toUpperCase()}` : " POST";
+
+  return (
+    <nav aria-label={tag ? `Posts tagged ${tag.label}` : "Previous and next posts"} className="max-w-3xl mx-auto px-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {previous ? <PostNavLink post={previous} label={`← PREVIOUS${scope}`} rel="prev" /> : <span className="hidden sm:block" />}
+        {next && <PostNavLink post={next} label={`NEXT${scope} →`} rel="next" />}
+      </div>
+    </nav>
+  );
+}
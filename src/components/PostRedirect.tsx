@@ -0,0 +1,40 @@
+import Link from 'next/link';
+
+interface PostRedirectProps {
+  slug: string;
+  title: string;
+}
+
+/**
+ * Sends visitors of a former slug on to the post. GitHub Pages cannot answer
+ * with a 301, so the page redirects with a meta refresh and, keeping any
+ * #fragment, with `location.replace`; the link is the fallback for both.
+ */
+export default function PostRedirect({ slug, title }: PostRedirectProps) {
+  const href = `/${slug}/`;
+
+  return (
+    <>
+      {/* React hoists the meta tag into <head> */}
+      <meta httpEquiv="refresh" content={`0; url=${href}`} />
+      <script
+        dangerouslySetInnerHTML={{ __html: `location.replace(${JSON.stringify(href)} + location.hash);` }}
+      />
+      <div className="max-w-3xl mx-auto px-6 py-8">
+        <h1 className="mb-4 text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+          This post has moved
+        </h1>
+        <p className="text-17 text-gray-700 dark:text-gray-300 font-blog leading-normal">
+          It is now at{' '}
+          <Link
+            href={href}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors duration-200"
+          >
+            {title}
+          </Link>
+          .
+        </p>
+      </div>
+    </>
+  );
+}
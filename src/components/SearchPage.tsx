@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import SearchResults, { useSearch } from './SearchResults';
+
+/**
+ * Search form and results for the `/search/` page. The query lives in `?q=`,
+ * so results can be linked to and the OpenSearch description can point
+ * browsers here.
+ */
+export default function SearchPage() {
+  const [query, setQuery] = useState('');
+  const { results, status } = useSearch(query);
+  const trimmedQuery = query.trim();
+
+  // Read after hydration: the page is statically exported without a query
+  useEffect(() => {
+    setQuery(new URLSearchParams(window.location.search).get('q') ?? '');
+  }, []);
+
+  const updateQuery = (value: string) => {
+    setQuery(value);
+    const url = new URL(window.location.href);
+    if (value.trim()) {
+      url.searchParams.set('q', value);
+    } else {
+      url.searchParams.delete('q');
+    }
+    window.history.replaceState(window.history.state, '', url);
+  };
+
+  return (
+    <>
+      <form action="/search/" method="get" role="search" className="mb-8" onSubmit={(e) => e.preventDefault()}>
+        <label htmlFor="search-input" className="sr-only">
+          Search posts
+        </label>
+        <input
+          id="search-input"
+          type="search"
+          name="q"
+          value={query}
+          onChange={(e) => updateQuery(e.target.value)}
+          placeholder="Search posts…"
+          autoFocus
+          className="w-full rounded-md border border-gray-300 bg-white px-4 py-3 text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
+        />
+      </form>
+
+      <div aria-live="polite">
+        {trimmedQuery && status === 'ready' && (
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            {results.length === 0
+              ? 'No posts found.'
+              : `${results.length} ${results.length === 1 ? 'post' : 'posts'} found`}
+          </p>
+        )}
+        {trimmedQuery && status === 'error' && (
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">Search is not available right now.</p>
+        )}
+      </div>
+
+      <SearchResults results={results} idPrefix="search-result" />
+    </>
+  );
+}
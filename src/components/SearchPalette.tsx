@@ -0,0 +1,183 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import SearchResults, { useSearch } from './SearchResults';
+
+const PALETTE_LIMIT = 8;
+
+function SearchIcon({ className }: { className: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+    </svg>
+  );
+}
+
+interface PaletteDialogProps {
+  onClose: () => void;
+}
+
+function PaletteDialog({ onClose }: PaletteDialogProps) {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { results, status } = useSearch(query, PALETTE_LIMIT);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const trimmedQuery = query.trim();
+  const allResultsHref = `/search/?q=${encodeURIComponent(trimmedQuery)}`;
+
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    inputRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter' && e.target === inputRef.current && trimmedQuery) {
+      e.preventDefault();
+      router.push(results[activeIndex]?.href ?? allResultsHref);
+      onClose();
+    } else if (e.key === 'Tab' && dialogRef.current) {
+      // Keep focus inside the dialog
+      const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>('input, a'));
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-black/50 px-4 pt-[10vh]"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search posts"
+        className="flex max-h-[75vh] w-full max-w-xl flex-col overflow-hidden rounded-lg bg-white shadow-xl dark:bg-gray-900 dark:ring-1 dark:ring-gray-700"
+        onKeyDown={onKeyDown}
+      >
+        <div className="flex items-center gap-3 border-b border-gray-200 px-4 dark:border-gray-700">
+          <SearchIcon className="h-5 w-5 shrink-0 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="search"
+            role="combobox"
+            aria-label="Search posts"
+            aria-expanded={results.length > 0}
+            aria-controls="search-palette-list"
+            aria-activedescendant={results.length > 0 ? `search-palette-${activeIndex}` : undefined}
+            aria-autocomplete="list"
+            placeholder="Search posts…"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            className="w-full bg-transparent py-4 text-gray-900 placeholder-gray-400 outline-none dark:text-white"
+          />
+          <kbd className="shrink-0 rounded border border-gray-200 px-1.5 text-xs text-gray-400 dark:border-gray-700">Esc</kbd>
+        </div>
+
+        <div className="overflow-y-auto p-2" aria-live="polite">
+          {trimmedQuery && status === 'loading' && (
+            <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+          )}
+          {trimmedQuery && status === 'error' && (
+            <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">Search is not available right now.</p>
+          )}
+          {trimmedQuery && status === 'ready' && results.length === 0 && (
+            <p className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">No posts found.</p>
+          )}
+          <SearchResults results={results} idPrefix="search-palette" activeIndex={activeIndex} onSelect={onClose} />
+        </div>
+
+        {results.length > 0 && (
+          <div className="border-t border-gray-200 px-4 py-2 text-right dark:border-gray-700">
+            <Link
+              href={allResultsHref}
+              onClick={onClose}
+              className="text-sm font-semibold text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              See all results
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Header search button that opens a command palette, also with Cmd-K or
+ * Ctrl-K from anywhere. Arrow keys pick a result and Enter opens it. Without
+ * JavaScript the button is a plain link to the search page.
+ */
+export default function SearchPalette() {
+  const [isOpen, setIsOpen] = useState(false);
+  const triggerRef = useRef<HTMLAnchorElement>(null);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    triggerRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const keyHandler = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+
+    document.addEventListener('keydown', keyHandler);
+    return () => document.removeEventListener('keydown', keyHandler);
+  }, []);
+
+  return (
+    <>
+      <Link
+        ref={triggerRef}
+        href="/search/"
+        onClick={(e) => {
+          if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+          e.preventDefault();
+          setIsOpen(true);
+        }}
+        aria-label="Search posts"
+        title="Search (Ctrl+K or ⌘K)"
+        aria-keyshortcuts="Control+K Meta+K"
+        className="w-9 h-9 rounded-lg flex items-center justify-center text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+      >
+        <SearchIcon className="h-5 w-5" />
+      </Link>
+      {isOpen && <PaletteDialog onClose={close} />}
+    </>
+  );
+}
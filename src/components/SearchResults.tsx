@@ -0,0 +1,102 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { HighlightSegment, SearchIndex, SearchResult, loadSearchIndex, search } from '@/lib/search';
+
+export type SearchStatus = 'loading' | 'ready' | 'error';
+
+/** Results for the query, loading the index on first use. */
+export function useSearch(query: string, limit?: number): { results: SearchResult[]; status: SearchStatus } {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [status, setStatus] = useState<SearchStatus>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex()
+      .then((loaded) => {
+        if (cancelled) return;
+        setIndex(loaded);
+        setStatus('ready');
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const results = useMemo(() => (index ? search(index, query, limit) : []), [index, query, limit]);
+  return { results, status };
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="search-match">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  /** Id prefix for the result elements, for `aria-activedescendant`. */
+  idPrefix: string;
+  /** Index of the keyboard-selected result, if the list is navigated from an input. */
+  activeIndex?: number;
+  onSelect?: () => void;
+}
+
+export default function SearchResults({ results, idPrefix, activeIndex, onSelect }: SearchResultsProps) {
+  return (
+    <ul role={activeIndex === undefined ? undefined : 'listbox'} id={`${idPrefix}-list`} className="space-y-1">
+      {results.map((result, i) => {
+        const isActive = i === activeIndex;
+        return (
+          <li
+            key={result.slug}
+            id={`${idPrefix}-${i}`}
+            role={activeIndex === undefined ? undefined : 'option'}
+            aria-selected={activeIndex === undefined ? undefined : isActive}
+          >
+            <Link
+              href={result.href}
+              onClick={onSelect}
+              className={`block rounded-md px-3 py-3 transition-colors ${
+                isActive ? 'bg-blue-50 dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+              }`}
+            >
+              <span className="flex items-center gap-2 text-12 font-bold tracking-wide text-metadata">
+                <time dateTime={result.date}>{format(new Date(result.date), 'MMM d, yyyy').toUpperCase()}</time>
+                {result.heading && (
+                  <>
+                    <span>•</span>
+                    <span className="truncate">{result.heading.toUpperCase()}</span>
+                  </>
+                )}
+              </span>
+              <span className="mt-1 block font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+                <Highlighted segments={result.title} />
+              </span>
+              {result.snippet.length > 0 && (
+                <span className="mt-1 block text-sm leading-normal text-gray-600 dark:text-gray-400">
+                  <Highlighted segments={result.snippet} />
+                </span>
+              )}
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,82 @@
+import Link from 'next/link';
+
+interface SeriesPart {
+  slug: string;
+  title: string;
+}
+
+interface SeriesNavProps {
+  title: string;
+  slug: string;
+  parts: SeriesPart[];
+  currentSlug: string;
+}
+
+export default function SeriesNav({ title, slug, parts, currentSlug }: SeriesNavProps) {
+  const currentIndex = parts.findIndex((part) => part.slug === currentSlug);
+
+  if (currentIndex === -1) return null;
+
+  const prev = currentIndex > 0 ? parts[currentIndex - 1] : null;
+  const next = currentIndex < parts.length - 1 ? parts[currentIndex + 1] : null;
+
+  return (
+    <nav
+      aria-label={`Series: ${title}`}
+      className="mb-10 rounded-md border border-gray-200 px-5 py-4 dark:border-gray-700"
+    >
+      <div className="mb-1 text-12 text-metadata font-bold tracking-wide">
+        PART {currentIndex + 1} OF {parts.length}
+      </div>
+      <Link
+        href={`/series/${slug}/`}
+        className="text-lg font-bold font-blog tracking-tight text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400 active:text-blue-700 dark:active:text-blue-500 transition-colors duration-200"
+      >
+        {title}
+      </Link>
+
+      <ol className="mt-3 space-y-1 text-sm">
+        {parts.map((part, index) => (
+          <li key={part.slug} className="flex gap-2">
+            <span className="text-gray-500 dark:text-gray-400">{index + 1}.</span>
+            {part.slug === currentSlug ? (
+              <span aria-current="page" className="font-semibold text-gray-900 dark:text-white">
+                {part.title}
+              </span>
+            ) : (
+              <Link
+                href={`/${part.slug}/`}
+                className="text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+              >
+                {part.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {(prev || next) && (
+        <div className="mt-4 flex justify-between gap-4 border-t border-gray-200 pt-3 text-sm font-medium dark:border-gray-700">
+          {prev ? (
+            <Link
+              href={`/${prev.slug}/`}
+              className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors duration-200"
+            >
+              ← Previous part
+            </Link>
+          ) : (
+            <span />
+          )}
+          {next && (
+            <Link
+              href={`/${next.slug}/`}
+              className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors duration-200"
+            >
+              Next part →
+            </Link>
+          )}
+        </div>
+      )}
+    </nav>
+  );
+}
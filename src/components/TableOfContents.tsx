@@ -1,57 +1,150 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { TocItem } from '@/lib/toc';
 
 interface TableOfContentsProps {
   items: TocItem[];
 }
 
+/**
+ * Id of the last heading scrolled past the top quarter of the viewport, i.e.
+ * the section being read.
+ */
+function useActiveHeading(items: TocItem[]): string | null {
+  const [activeSlug, setActiveSlug] = useState<string | null>(null);
+
+  useEffect(() => {
+    const headings = items
+      .map((item) => document.getElementById(item.slug))
+      .filter((heading): heading is HTMLElement => heading !== null);
+    if (headings.length === 0) return;
+
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const threshold = window.innerHeight * 0.25;
+      let current: string | null = null;
+
+      for (const heading of headings) {
+        if (heading.getBoundingClientRect().top > threshold) break;
+        current = heading.id;
+      }
+
+      setActiveSlug(current);
+    };
+
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, [items]);
+
+  return activeSlug;
+}
+
+function indentClass(level: number): string {
+  if (level === 4) return 'ml-8';
+  if (level === 3) return 'ml-4';
+  return '';
+}
+
+// The sidebar indents with padding so each link's active border lines up
+function sidebarIndentClass(level: number): string {
+  if (level === 4) return 'pl-12';
+  if (level === 3) return 'pl-8';
+  return 'pl-4';
+}
+
+/**
+ * A collapsible list above the article, and on screens wide enough for a
+ * margin column, a sticky sidebar left of the article that highlights the
+ * section in view. Sidenotes take the right margin at the same width.
+ */
 export default function TableOfContents({ items }: TableOfContentsProps) {
   const [isOpen, setIsOpen] = useState(true);
+  const activeSlug = useActiveHeading(items);
 
   if (items.length === 0) return null;
 
   return (
-    <nav aria-label="Table of contents" className="mb-8">
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-        aria-expanded={isOpen}
-        aria-controls="toc-list"
-      >
-        <svg
-          className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`}
-          fill="none"
-          viewBox="0 0 24 24"
-          stroke="currentColor"
+    <>
+      <nav aria-label="Table of contents" className="mb-8 min-[1380px]:hidden">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          aria-expanded={isOpen}
+          aria-controls="toc-list"
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Table of Contents
+          <span className="text-xs text-gray-400 dark:text-gray-500 font-normal">
+            ({items.length})
+          </span>
+        </button>
+
+        {isOpen && (
+          <ul id="toc-list" className="mt-3 space-y-2 border-l-2 border-gray-200 dark:border-gray-700 pl-4">
+            {items.map((item) => (
+              <li key={item.slug} className={indentClass(item.level)}>
+                <a
+                  href={`#${item.slug}`}
+                  className="text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                  onClick={() => setIsOpen(false)}
+                >
+                  {item.text}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </nav>
+
+      {/* Spans the article's height so the sticky nav scrolls along with it */}
+      <div className="absolute right-full top-0 mr-4 hidden h-full w-60 min-[1380px]:block">
+        <nav
+          aria-label="Table of contents"
+          className="sticky top-8 max-h-[calc(100vh-4rem)] overflow-y-auto pt-8"
         >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-        </svg>
-        Table of Contents
-        <span className="text-xs text-gray-400 dark:text-gray-500 font-normal">
-          ({items.length})
-        </span>
-      </button>
-
-      {isOpen && (
-        <ul id="toc-list" className="mt-3 space-y-2 border-l-2 border-gray-200 dark:border-gray-700 pl-4">
-          {items.map((item) => (
-            <li
-              key={item.slug}
-              className={item.level === 3 ? 'ml-4' : ''}
-            >
-              <a
-                href={`#${item.slug}`}
-                className="text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
-                onClick={() => setIsOpen(false)}
-              >
-                {item.text}
-              </a>
-            </li>
-          ))}
-        </ul>
-      )}
-    </nav>
+          <p className="mb-3 text-12 font-bold tracking-wide text-metadata">CONTENTS</p>
+          <ul className="space-y-2 border-l-2 border-gray-200 dark:border-gray-700">
+            {items.map((item) => {
+              const isActive = item.slug === activeSlug;
+              return (
+                <li key={item.slug}>
+                  <a
+                    href={`#${item.slug}`}
+                    aria-current={isActive ? 'location' : undefined}
+                    className={`-ml-0.5 block border-l-2 ${sidebarIndentClass(item.level)} text-sm leading-snug transition-colors ${
+                      isActive
+                        ? 'border-blue-600 text-blue-600 dark:border-blue-400 dark:text-blue-400 font-semibold'
+                        : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400'
+                    }`}
+                  >
+                    {item.text}
+                  </a>
+                </li>
+              );
+            })}
+          </ul>
+        </nav>
+      </div>
+    </>
   );
 }
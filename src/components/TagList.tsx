@@ -1,4 +1,5 @@
 import Link from 'next/link';
+import { getTagLabel } from '@/lib/tag-registry';
 import { tagToSlug } from '@/lib/tags';
 
 interface TagListProps {
@@ -22,7 +23,7 @@ export default function TagList({ tags, align = 'left', className = '' }: TagLis
           href={`/tags/${tagToSlug(tag)}/`}
           className="inline-flex rounded-md border border-gray-200 px-2 py-1 text-xs font-semibold text-gray-600 transition-colors duration-200 hover:border-blue-300 hover:text-blue-600 active:text-blue-700 dark:border-gray-700 dark:text-gray-300 dark:hover:border-blue-500 dark:hover:text-blue-400 dark:active:text-blue-500"
         >
-          #{tag}
+          #{getTagLabel(tagToSlug(tag))}
         </Link>
       ))}
     </div>
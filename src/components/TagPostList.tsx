@@ -0,0 +1,103 @@
+import Link from 'next/link';
+import { markdownToHtml } from '@/lib/markdown';
+import { type Post, type Tag, getChildTags, getTagBySlug } from '@/lib/posts';
+import PostCard from './PostCard';
+import Pagination from './Pagination';
+
+interface TagPostListProps {
+  tag: Tag;
+  page: {
+    posts: Post[];
+    totalPages: number;
+    currentPage: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+const relatedTagClass =
+  'text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors duration-200';
+
+/**
+ * One page of a tag's posts, shared by `/tags/[tag]/` and its later pages,
+ * under the tag's registry description and links to its parent and subtags.
+ */
+export default async function TagPostList({ tag, page }: TagPostListProps) {
+  const parent = tag.parent ? getTagBySlug(tag.parent) : null;
+  const subtags = getChildTags(tag.slug);
+  const descriptionHtml = tag.description && page.currentPage === 1 ? await markdownToHtml(tag.description) : '';
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-8">
+      <header className="mb-10">
+        <div className="mb-3 flex items-center gap-2 text-12 text-metadata font-bold tracking-wide">
+          <span>
+            {tag.count} {tag.count === 1 ? 'POST' : 'POSTS'}
+          </span>
+          <span>•</span>
+          <a
+            href={`/tags/${tag.slug}/feed.xml`}
+            className="hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+          >
+            RSS
+          </a>
+        </div>
+        <h1 className="text-4xl font-extrabold text-gray-900 dark:text-white font-blog tracking-tight">
+          #{tag.label}
+        </h1>
+        {descriptionHtml && (
+          <div
+            className="mt-3 text-17 text-gray-700 dark:text-gray-300 font-blog leading-normal"
+            dangerouslySetInnerHTML={{ __html: descriptionHtml }}
+          />
+        )}
+        {(parent || subtags.length > 0) && (
+          <p className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm font-semibold text-gray-500 dark:text-gray-400">
+            {parent && (
+              <span>
+                Part of{' '}
+                <Link href={`/tags/${parent.slug}/`} className={relatedTagClass}>
+                  #{parent.label}
+                </Link>
+              </span>
+            )}
+            {subtags.length > 0 && (
+              <span>
+                Subtopics:{' '}
+                {subtags.map((subtag, index) => (
+                  <span key={subtag.slug}>
+                    {index > 0 && ', '}
+                    <Link href={`/tags/${subtag.slug}/`} className={relatedTagClass}>
+                      #{subtag.label}
+                    </Link>
+                  </span>
+                ))}
+              </span>
+            )}
+          </p>
+        )}
+      </header>
+
+      <div className="space-y-8">
+        {page.posts.map((post) => (
+          <PostCard
+            key={post.slug}
+            title={post.title}
+            slug={post.slug}
+            date={post.date}
+            summary={post.summary}
+            readingTime={post.readingTime}
+          />
+        ))}
+      </div>
+
+      <Pagination
+        currentPage={page.currentPage}
+        totalPages={page.totalPages}
+        hasNextPage={page.hasNextPage}
+        hasPrevPage={page.hasPrevPage}
+        basePath={`/tags/${tag.slug}/`}
+      />
+    </div>
+  );
+}
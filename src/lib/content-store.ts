@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import { tagToSlug } from './tags';
+import { type TagRegistry, findUnregisteredTags, getTagRegistry } from './tag-registry';
+import { FrontmatterIssue, FrontmatterValidationError } from './frontmatter';
+import { Post, getPostFormat, parsePostFile, postsDirectory } from './post-file';
+
+interface ParsedFile {
+  mtimeMs: number;
+  post: Post;
+  issues: FrontmatterIssue[];
+}
+
+export interface ContentStore {
+  /** Visible posts, newest first. */
+  byDate: Post[];
+  bySlug: Map<string, Post>;
+  /** Visible posts by their former slugs. */
+  byAlias: Map<string, Post>;
+  /** Visible posts per tag slug, newest first. */
+  byTag: Map<string, Post[]>;
+  /** Visible posts per series slug in reading order, most recently started series first. */
+  bySeries: Map<string, { title: string; posts: Post[] }>;
+}
+
+/**
+ * Drafts and scheduled posts are only listed by `next dev`, where they render
+ * with a banner so they can be reviewed in place. Production builds leave them
+ * out of every listing, feed, sitemap and static route.
+ */
+export function isPreviewMode(): boolean {
+  return process.env.NODE_ENV === 'development';
+}
+
+function isVisible(post: Post): boolean {
+  return post.status === 'published' || isPreviewMode();
+}
+
+/**
+ * Top-level paths that `src/app` routes and `public` files already take.
+ * They win over the `[slug]` route, so an alias there would never redirect.
+ */
+function getReservedPaths(): Map<string, string> {
+  const reserved = new Map<string, string>();
+
+  for (const dir of ['src/app', 'public']) {
+    const entries = fs.readdirSync(path.join(process.cwd(), dir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      // Dynamic segments, route groups and private folders add no path of their own
+      if (dir === 'src/app' && (!entry.isDirectory() || /^[[(_@]/.test(entry.name))) continue;
+      reserved.set(entry.name, path.join(dir, entry.name));
+    }
+  }
+
+  return reserved;
+}
+
+const parsedFiles = new Map<string, ParsedFile>();
+// Posts fold tag aliases while parsing, so they are stale once the registry changes
+let parsedWithRegistry: TagRegistry | null = null;
+let store: ContentStore | null = null;
+
+/**
+ * Re-reads only the files whose mtime changed since they were last parsed and
+ * forgets deleted ones, or every file after `content/tags.yml` changed.
+ * Returns whether anything changed.
+ */
+function syncParsedFiles(): boolean {
+  const fileNames = fs.readdirSync(postsDirectory).filter((fileName) => getPostFormat(fileName) !== null);
+  let changed = false;
+
+  const registry = getTagRegistry();
+  if (registry !== parsedWithRegistry) {
+    parsedFiles.clear();
+    parsedWithRegistry = registry;
+    changed = true;
+  }
+
+  for (const fileName of parsedFiles.keys()) {
+    if (!fileNames.includes(fileName)) {
+      parsedFiles.delete(fileName);
+      changed = true;
+    }
+  }
+
+  for (const fileName of fileNames) {
+    const fullPath = path.join(postsDirectory, fileName);
+    const { mtimeMs } = fs.statSync(fullPath);
+
+    if (parsedFiles.get(fileName)?.mtimeMs === mtimeMs) {
+      continue;
+    }
+
+    const slug = fileName.replace(/\.mdx?$/, '');
+    const fileContents = fs.readFileSync(fullPath, 'utf8');
+    parsedFiles.set(fileName, { mtimeMs, ...parsePostFile(slug, fileName, fileContents) });
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * Groups posts by their `series` frontmatter. Parts are ordered by
+ * `seriesPart`, falling back to publish date for parts without one.
+ */
+function indexSeries(byDate: Post[]): ContentStore['bySeries'] {
+  const bySeries = new Map<string, { title: string; posts: Post[] }>();
+
+  for (const post of byDate) {
+    if (!post.series) continue;
+
+    const slug = tagToSlug(post.series);
+    const existing = bySeries.get(slug);
+
+    if (existing) {
+      existing.posts.push(post);
+    } else {
+      bySeries.set(slug, { title: post.series, posts: [post] });
+    }
+  }
+
+  for (const { posts } of bySeries.values()) {
+    posts.sort((a, b) => {
+      const partA = a.seriesPart ?? Number.MAX_SAFE_INTEGER;
+      const partB = b.seriesPart ?? Number.MAX_SAFE_INTEGER;
+      if (partA !== partB) return partA - partB;
+      return a.date < b.date ? -1 : 1;
+    });
+  }
+
+  // Most recently started series first
+  return new Map(
+    Array.from(bySeries).sort(([, a], [, b]) => (a.posts[0].date < b.posts[0].date ? 1 : -1))
+  );
+}
+
+function buildStore(): ContentStore {
+  const issues = Array.from(parsedFiles.values()).flatMap((file) => file.issues);
+  const fileNamesBySlug = new Map<string, string>();
+
+  for (const [fileName, { post }] of parsedFiles) {
+    const existing = fileNamesBySlug.get(post.slug);
+
+    if (existing) {
+      issues.push({
+        file: path.join('content/posts', fileName),
+        field: 'slug',
+        message: `"${post.slug}" is also used by ${existing}`,
+      });
+    } else {
+      fileNamesBySlug.set(post.slug, fileName);
+    }
+  }
+
+  // Checked after every slug is known, so an alias can't shadow any post, hidden or not
+  const fileNamesByAlias = new Map<string, string>();
+  const reservedPaths = getReservedPaths();
+
+  for (const [fileName, { post }] of parsedFiles) {
+    for (const alias of post.aliases) {
+      const slugOwner = fileNamesBySlug.get(alias);
+      const aliasOwner = fileNamesByAlias.get(alias);
+      const reservedPath = reservedPaths.get(alias);
+      const issue = slugOwner
+        ? `"${alias}" is the slug of ${slugOwner}`
+        : reservedPath
+          ? `"${alias}" is already taken by ${reservedPath}`
+          : aliasOwner && aliasOwner !== fileName
+            ? `"${alias}" is also an alias in ${aliasOwner}`
+            : null;
+
+      if (issue) {
+        issues.push({ file: path.join('content/posts', fileName), field: 'aliases', message: issue });
+      } else {
+        fileNamesByAlias.set(alias, fileName);
+      }
+    }
+  }
+
+  // Hidden posts count too, so publishing a draft can't reorder a series
+  const fileNamesBySeriesPart = new Map<string, string>();
+
+  for (const [fileName, { post }] of parsedFiles) {
+    if (!post.series || post.seriesPart === undefined) continue;
+
+    const key = `${tagToSlug(post.series)}#${post.seriesPart}`;
+    const existing = fileNamesBySeriesPart.get(key);
+
+    if (existing) {
+      issues.push({
+        file: path.join('content/posts', fileName),
+        field: 'seriesPart',
+        message: `part ${post.seriesPart} of "${post.series}" is also used by ${existing}`,
+      });
+    } else {
+      fileNamesBySeriesPart.set(key, fileName);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new FrontmatterValidationError(issues);
+  }
+
+  const unregistered = findUnregisteredTags(
+    Array.from(parsedFiles, ([fileName, { post }]) => ({ file: path.join('content/posts', fileName), tags: post.tags }))
+  );
+  if (unregistered.length > 0) {
+    console.warn(
+      `Tags missing from content/tags.yml (${unregistered.length}):\n\n` +
+        unregistered.map(({ file, tag }) => `  - ${file}: ${tag}`).join('\n')
+    );
+  }
+
+  const byDate = Array.from(parsedFiles.values())
+    .map((file) => file.post)
+    .filter(isVisible)
+    .sort((a, b) => (a.date < b.date ? 1 : -1));
+
+  const bySlug = new Map<string, Post>();
+  const byAlias = new Map<string, Post>();
+  const byTag = new Map<string, Post[]>();
+
+  for (const post of byDate) {
+    bySlug.set(post.slug, post);
+
+    for (const alias of post.aliases) {
+      byAlias.set(alias, post);
+    }
+
+    for (const tag of post.tags) {
+      const slug = tagToSlug(tag);
+      const posts = byTag.get(slug);
+
+      if (posts) {
+        posts.push(post);
+      } else {
+        byTag.set(slug, [post]);
+      }
+    }
+  }
+
+  return { byDate, bySlug, byAlias, byTag, bySeries: indexSeries(byDate) };
+}
+
+/**
+ * The parsed and indexed post corpus. Production builds parse every file once
+ * and reuse the result; `next dev` re-checks file mtimes on each call so edits
+ * show up without a restart.
+ */
+export function getContentStore(): ContentStore {
+  if (store && process.env.NODE_ENV !== 'development') {
+    return store;
+  }
+
+  if (!syncParsedFiles() && store) {
+    return store;
+  }
+
+  // Cleared first so a failed rebuild is retried instead of serving stale data
+  store = null;
+  store = buildStore();
+  return store;
+}
@@ -0,0 +1,206 @@
+import { remark } from 'remark';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+import type { Element, Root as HastRoot } from 'hast';
+import type { Root as MdastRoot } from 'mdast';
+import { visit } from 'unist-util-visit';
+import { getAllPosts, type Post, type Tag } from './posts';
+import { rehypePlugins, remarkPlugins } from './markdown';
+import { getPrerenderedMermaid } from './mermaid';
+import { stripMdxSyntax } from './post-file';
+import rehypeHeadingAnchors from './rehype-heading-anchors';
+import rehypeSidenotes from './rehype-sidenotes';
+import { siteFileUrl, siteUrl } from './site';
+import { getTagLabel } from './tag-registry';
+
+export const FEED_TITLE = "Tero's blog";
+export const FEED_DESCRIPTION =
+  'Personal technical blog by Tero Laitinen. Articles on software engineering, architecture, and technology.';
+
+/** The feeds every page advertises through `alternates.types` metadata. */
+export const feedAlternateTypes = {
+  'application/rss+xml': [{ url: siteFileUrl('/feed.xml'), title: FEED_TITLE }],
+  'application/atom+xml': [{ url: siteFileUrl('/atom.xml'), title: FEED_TITLE }],
+  'application/feed+json': [{ url: siteFileUrl('/feed.json'), title: FEED_TITLE }],
+};
+
+/** Advertises a tag's own feed ahead of the site-wide ones. */
+export function tagFeedAlternateTypes(tag: Tag) {
+  return {
+    ...feedAlternateTypes,
+    'application/rss+xml': [
+      { url: siteFileUrl(`/tags/${tag.slug}/feed.xml`), title: `${FEED_TITLE}: #${tag.label}` },
+      ...feedAlternateTypes['application/rss+xml'],
+    ],
+  };
+}
+
+export function escapeXml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Feed readers have no stylesheet or script for the "#" links and sidenotes
+const pageOnlyPlugins = new Set<unknown>([rehypeHeadingAnchors, rehypeSidenotes]);
+const feedRehypePlugins = rehypePlugins.filter((plugin) => !pageOnlyPlugins.has(plugin));
+
+/**
+ * Mermaid fences become the light SVG `scripts/prerender-mermaid.js` rendered,
+ * or a link to the post when there is none, since readers cannot run Mermaid.
+ */
+function remarkFeedMermaid({ postUrl }: { postUrl: string }) {
+  return (tree: MdastRoot) => {
+    visit(tree, 'code', (node, index, parent) => {
+      if (node.lang !== 'mermaid' || !parent || index === undefined) return;
+
+      const prerendered = getPrerenderedMermaid(node.value);
+      parent.children[index] = {
+        type: 'html',
+        value: prerendered
+          ? `<figure>${prerendered.light}</figure>`
+          : `<p><a href="${escapeXml(postUrl)}">View the diagram in the post</a></p>`,
+      };
+    });
+  };
+}
+
+const URL_ATTRIBUTES = ['href', 'src', 'poster'] as const;
+
+function absoluteUrl(url: string, postUrl: string): string {
+  if (url.startsWith('/') && !url.startsWith('//')) return siteFileUrl(url);
+  // Footnote and heading links point into the post, not the feed
+  if (url.startsWith('#')) return `${postUrl}${url}`;
+  return new URL(url, postUrl).toString();
+}
+
+/**
+ * Rewrites relative links and image sources to absolute URLs, which readers
+ * need to resolve them, and drops the code blocks' copy buttons.
+ */
+function rehypeFeedContent({ postUrl }: { postUrl: string }) {
+  return (tree: HastRoot) => {
+    visit(tree, 'element', (node: Element, index, parent) => {
+      const className = node.properties.className;
+      if (Array.isArray(className) && className.includes('code-copy') && parent && index !== undefined) {
+        parent.children.splice(index, 1);
+        return index;
+      }
+
+      for (const attribute of URL_ATTRIBUTES) {
+        const value = node.properties[attribute];
+        if (typeof value === 'string') node.properties[attribute] = absoluteUrl(value, postUrl);
+      }
+
+      const srcSet = node.properties.srcSet;
+      if (typeof srcSet === 'string') {
+        node.properties.srcSet = srcSet
+          .split(',')
+          .map((candidate) => {
+            const [url, ...descriptor] = candidate.trim().split(/\s+/);
+            return [absoluteUrl(url, postUrl), ...descriptor].join(' ');
+          })
+          .join(', ');
+      }
+    });
+  };
+}
+
+async function renderFeedHtml(markdown: string, postUrl: string): Promise<string> {
+  const result = await remark()
+    .use(remarkPlugins)
+    .use(remarkFeedMermaid, { postUrl })
+    .use(remarkRehype, { allowDangerousHtml: true })
+    .use(feedRehypePlugins)
+    .use(rehypeFeedContent, { postUrl })
+    .use(rehypeStringify, { allowDangerousHtml: true })
+    .process(markdown);
+
+  return result.toString();
+}
+
+export interface FeedEntry {
+  post: Post;
+  url: string;
+  /** The summary and full post body, with absolute URLs. */
+  html: string;
+}
+
+// Keyed by the parsed post, so a post `next dev` re-parses after an edit is rendered afresh
+const feedEntries = new WeakMap<Post, Promise<FeedEntry>>();
+
+// Each post is rendered once however many tag feeds it appears in
+function getFeedEntry(post: Post): Promise<FeedEntry> {
+  let entry = feedEntries.get(post);
+  if (!entry) {
+    entry = (async () => {
+      const url = siteUrl(post.slug);
+      const body = post.format === 'mdx' ? stripMdxSyntax(post.content) : post.content;
+      const [summaryHtml, bodyHtml] = await Promise.all([
+        post.summary ? renderFeedHtml(post.summary, url) : Promise.resolve(''),
+        renderFeedHtml(body, url),
+      ]);
+
+      return { post, url, html: summaryHtml + bodyHtml };
+    })();
+    feedEntries.set(post, entry);
+  }
+  return entry;
+}
+
+/**
+ * Posts with their full content for `feed.xml`, `atom.xml`, `feed.json` and
+ * the tag feeds, all posts by default. MDX posts are rendered as Markdown
+ * without their components, because components only render as part of a page.
+ */
+export function getFeedEntries(posts: Post[] = getAllPosts()): Promise<FeedEntry[]> {
+  return Promise.all(posts.map(getFeedEntry));
+}
+
+/** When a post was last published or revised, for the feeds' own updated dates. */
+export function feedUpdated(entries: FeedEntry[]): Date {
+  return new Date(Math.max(...entries.map(({ post }) => new Date(post.updated).getTime()), 0));
+}
+
+// Ends the CDATA section around "]]>" inside the HTML and starts a new one
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+interface RssFeedOptions {
+  title: string;
+  description: string;
+  /** The page the feed follows. */
+  link: string;
+  feedUrl: string;
+  entries: FeedEntry[];
+}
+
+/** RSS 2.0 with each post's full HTML in `content:encoded`. */
+export function renderRssFeed({ title, description, link, feedUrl, entries }: RssFeedOptions): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+<channel>
+  <title>${escapeXml(title)}</title>
+  <link>${link}</link>
+  <description>${escapeXml(description)}</description>
+  <language>en</language>
+  <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+  <atom:link href="${feedUrl}" rel="self" type="application/rss+xml"/>
+  ${entries.map(({ post, url, html }) => `
+  <item>
+    <title>${escapeXml(post.title)}</title>
+    <link>${url}</link>
+    <guid isPermaLink="true">${url}</guid>
+    <pubDate>${new Date(post.date).toUTCString()}</pubDate>
+    <atom:updated>${new Date(post.updated).toISOString()}</atom:updated>
+    <description>${escapeXml(post.excerpt || '')}</description>
+    <content:encoded>${cdata(html)}</content:encoded>
+    ${post.tags.length > 0 ? post.tags.map(tag => `<category>${escapeXml(getTagLabel(tag))}</category>`).join('\n    ') : ''}
+  </item>`).join('')}
+</channel>
+</rss>`;
+}
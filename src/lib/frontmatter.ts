@@ -0,0 +1,197 @@
+interface FieldValueTypes {
+  string: string;
+  date: string;
+  boolean: boolean;
+  integer: number;
+  'string[]': string[];
+}
+
+interface FieldSpec {
+  type: keyof FieldValueTypes;
+  required?: boolean;
+}
+
+type Schema = Record<string, FieldSpec>;
+
+type RequiredKeys<S extends Schema> = {
+  [K in keyof S]: S[K]['required'] extends true ? K : never;
+}[keyof S];
+
+type OptionalKeys<S extends Schema> = Exclude<keyof S, RequiredKeys<S>>;
+
+type InferFrontmatter<S extends Schema> = {
+  [K in RequiredKeys<S>]: FieldValueTypes[S[K]['type']];
+} & {
+  [K in OptionalKeys<S>]?: FieldValueTypes[S[K]['type']];
+};
+
+/**
+ * The frontmatter every file in `content/posts` is checked against.
+ * Adding a field here is what makes it legal to use in a post.
+ */
+export const postFrontmatterSchema = {
+  title: { type: 'string', required: true },
+  slug: { type: 'string', required: true },
+  aliases: { type: 'string[]' },
+  date: { type: 'date', required: true },
+  updated: { type: 'date' },
+  tags: { type: 'string[]' },
+  summary: { type: 'string' },
+  excerpt: { type: 'string' },
+  draft: { type: 'boolean' },
+  publishAt: { type: 'date' },
+  series: { type: 'string' },
+  seriesPart: { type: 'integer' },
+  image: { type: 'string' },
+  toc: { type: 'boolean' },
+  tocDepth: { type: 'integer' },
+  navigationTag: { type: 'string' },
+} as const satisfies Schema;
+
+export type PostFrontmatter = InferFrontmatter<typeof postFrontmatterSchema>;
+
+export interface FrontmatterIssue {
+  file: string;
+  field: string;
+  message: string;
+}
+
+export class FrontmatterValidationError extends Error {
+  readonly issues: FrontmatterIssue[];
+
+  constructor(issues: FrontmatterIssue[]) {
+    super(
+      `Post frontmatter validation failed (${issues.length} issue(s)):\n\n` +
+        issues.map((issue) => `  - ${issue.file}: ${issue.field}: ${issue.message}`).join('\n')
+    );
+    this.name = 'FrontmatterValidationError';
+    this.issues = issues;
+  }
+}
+
+// YYYY-MM-DD, optionally followed by a time and offset.
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// Lowercase letters and digits separated by single hyphens, like post filenames.
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (value instanceof Date) return 'a date';
+  return typeof value === 'string' ? `"${value}"` : `a ${typeof value}`;
+}
+
+/**
+ * Returns the value normalized to its declared type, or an error message.
+ * YAML parses unquoted dates into Date objects, so those are folded back into
+ * the ISO strings the rest of the code compares and formats.
+ */
+function checkField(spec: FieldSpec, value: unknown): { value: unknown } | { error: string } {
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string' || value.trim() === '') {
+        return { error: `expected a non-empty string, got ${describe(value)}` };
+      }
+      return { value };
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return { error: `expected true or false, got ${describe(value)}` };
+      }
+      return { value };
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        return { error: `expected a positive whole number, got ${describe(value)}` };
+      }
+      return { value };
+    case 'string[]':
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+        return { error: `expected a list of strings, got ${describe(value)}` };
+      }
+      return { value };
+    case 'date': {
+      if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) {
+          return { error: 'expected a valid date' };
+        }
+        const iso = value.toISOString();
+        return { value: iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso };
+      }
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+        return { error: `expected a date in YYYY-MM-DD format, got ${describe(value)}` };
+      }
+      if (Number.isNaN(new Date(value).getTime())) {
+        return { error: `"${value}" is not a valid calendar date` };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Checks one post's frontmatter against `postFrontmatterSchema`. Issues are
+ * returned rather than thrown so callers can report every file at once.
+ */
+export function validatePostFrontmatter(
+  file: string,
+  expectedSlug: string,
+  data: Record<string, unknown>
+): { frontmatter: PostFrontmatter; issues: FrontmatterIssue[] } {
+  const schema: Schema = postFrontmatterSchema;
+  const issues: FrontmatterIssue[] = [];
+  const frontmatter: Record<string, unknown> = {};
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = data[field];
+
+    if (value === undefined || value === null) {
+      if (spec.required) {
+        issues.push({ file, field, message: 'is required' });
+      }
+      continue;
+    }
+
+    const result = checkField(spec, value);
+    if ('error' in result) {
+      issues.push({ file, field, message: result.error });
+    } else {
+      frontmatter[field] = result.value;
+    }
+  }
+
+  if (typeof frontmatter.slug === 'string' && frontmatter.slug !== expectedSlug) {
+    issues.push({
+      file,
+      field: 'slug',
+      message: `"${frontmatter.slug}" must match filename slug "${expectedSlug}"`,
+    });
+  }
+
+  for (const alias of (frontmatter.aliases as string[] | undefined) ?? []) {
+    if (!SLUG_PATTERN.test(alias)) {
+      issues.push({ file, field: 'aliases', message: `"${alias}" must be a lowercase slug such as "old-post-name"` });
+    } else if (alias === expectedSlug) {
+      issues.push({ file, field: 'aliases', message: `"${alias}" is the post's own slug` });
+    }
+  }
+
+  if (frontmatter.seriesPart !== undefined && frontmatter.series === undefined) {
+    issues.push({ file, field: 'seriesPart', message: 'requires a series' });
+  }
+
+  if (typeof frontmatter.image === 'string' && !/^(\/|https:\/\/)/.test(frontmatter.image)) {
+    issues.push({ file, field: 'image', message: 'must be a site path starting with "/" or an https:// URL' });
+  }
+
+  if (typeof frontmatter.tocDepth === 'number' && (frontmatter.tocDepth < 2 || frontmatter.tocDepth > 4)) {
+    issues.push({ file, field: 'tocDepth', message: `expected 2, 3 or 4, got ${frontmatter.tocDepth}` });
+  }
+
+  for (const field of Object.keys(data)) {
+    if (!(field in schema)) {
+      issues.push({ file, field, message: 'is not a known frontmatter field' });
+    }
+  }
+
+  return { frontmatter: frontmatter as PostFrontmatter, issues };
+}
@@ -0,0 +1,124 @@
+import type { HLJSApi, Language, LanguageFn } from 'highlight.js';
+import dockerfile from 'highlight.js/lib/languages/dockerfile';
+import prolog from 'highlight.js/lib/languages/prolog';
+import { common } from 'lowlight';
+import extraLanguageAliases from './highlight-languages.json';
+
+/**
+ * HashiCorp Configuration Language, which Terraform files are written in.
+ */
+function hcl(hljs: HLJSApi): Language {
+  const interpolation = {
+    className: 'subst',
+    begin: /[$%]\{/,
+    end: /\}/,
+    contains: [hljs.QUOTE_STRING_MODE, hljs.NUMBER_MODE],
+  };
+
+  return {
+    name: 'HCL',
+    keywords: {
+      keyword: ['for', 'in', 'if', 'for_each', 'count', 'depends_on', 'lifecycle', 'dynamic', 'content'],
+      literal: ['true', 'false', 'null'],
+      built_in: ['var', 'local', 'module', 'data', 'each', 'self', 'path', 'terraform'],
+    },
+    contains: [
+      hljs.HASH_COMMENT_MODE,
+      hljs.C_LINE_COMMENT_MODE,
+      hljs.C_BLOCK_COMMENT_MODE,
+      {
+        // Block headers: `resource "aws_instance" "web" {`
+        begin: /^\s*[A-Za-z_][\w-]*(?=(\s+("[^"]*"|[A-Za-z_][\w-]*))*\s*\{)/,
+        className: 'section',
+      },
+      {
+        className: 'string',
+        begin: /<<-?\s*[A-Z_]+\s*$/m,
+        end: /^\s*[A-Z_]+\s*$/m,
+        contains: [interpolation],
+      },
+      {
+        className: 'string',
+        begin: /"/,
+        end: /"/,
+        contains: [hljs.BACKSLASH_ESCAPE, interpolation],
+      },
+      {
+        className: 'attr',
+        begin: /[A-Za-z_][\w-]*(?=\s*=(?!=))/,
+      },
+      {
+        className: 'title.function',
+        begin: /[A-Za-z_][\w-]*(?=\()/,
+      },
+      hljs.NUMBER_MODE,
+    ],
+  };
+}
+
+/**
+ * Soufflé-style Datalog, which the Flowlog programs in
+ * experiments/opam-flowlog/programs use.
+ */
+function datalog(hljs: HLJSApi): Language {
+  return {
+    name: 'Datalog',
+    keywords: {
+      keyword: ['count', 'sum', 'min', 'max', 'mean', 'match', 'contains', 'as', 'nil'],
+      literal: ['true', 'false'],
+      type: ['number', 'symbol', 'unsigned', 'float', 'int32', 'int64', 'uint32', 'uint64'],
+    },
+    contains: [
+      hljs.C_LINE_COMMENT_MODE,
+      hljs.C_BLOCK_COMMENT_MODE,
+      {
+        className: 'meta',
+        begin: /^\s*\.[a-z]+\b/,
+      },
+      hljs.QUOTE_STRING_MODE,
+      {
+        className: 'attr',
+        begin: /[A-Za-z_]\w*(?=\s*=[^=])/,
+      },
+      {
+        className: 'title.function',
+        begin: /[A-Za-z_]\w*(?=\s*\()/,
+      },
+      {
+        className: 'operator',
+        begin: /:-|!(?!=)/,
+      },
+      {
+        className: 'variable',
+        begin: /\b_\b/,
+      },
+      hljs.C_NUMBER_MODE,
+    ],
+  };
+}
+
+type ExtraLanguage = keyof typeof extraLanguageAliases;
+
+const extraLanguages: Record<ExtraLanguage, LanguageFn> = {
+  datalog,
+  dockerfile,
+  hcl,
+  prolog,
+};
+
+/**
+ * Grammars for fenced code blocks: lowlight's common set plus the languages
+ * posts use beyond it. The extra languages and their aliases, such as
+ * `terraform`, are listed in highlight-languages.json, which
+ * scripts/check-code-languages.js also reads to report fences none of these
+ * cover.
+ */
+export const highlightLanguages: Record<string, LanguageFn> = {
+  ...common,
+  ...Object.fromEntries(
+    Object.entries(extraLanguages).map(([name, grammar]) => [
+      name,
+      (hljs: HLJSApi) => ({ ...grammar(hljs), aliases: extraLanguageAliases[name as ExtraLanguage] }),
+    ])
+  ),
+};
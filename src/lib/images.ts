@@ -0,0 +1,48 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface ImageSource {
+  type: string;
+  srcset: string;
+}
+
+export interface ImageInfo {
+  width: number;
+  height: number;
+  /** Site path of the full-resolution file: the `_o` original, if any. */
+  original: string;
+  /** AVIF and WebP variants, best format first. Empty for GIFs and SVGs. */
+  sources: ImageSource[];
+}
+
+/** Matches the post column: max-w-3xl minus the article's horizontal padding. */
+export const IMAGE_SIZES = '(min-width: 768px) 720px, calc(100vw - 3rem)';
+
+/**
+ * Written by `scripts/optimize-images.js` before `next build`. Must match the
+ * path the script uses.
+ */
+const manifestPath = path.join(process.cwd(), '.cache/images/manifest.json');
+
+let manifest: Record<string, ImageInfo> | null = null;
+
+function loadManifest(): Record<string, ImageInfo> {
+  if (manifest && process.env.NODE_ENV !== 'development') {
+    return manifest;
+  }
+
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as Record<string, ImageInfo>;
+  } catch {
+    manifest = {};
+  }
+  return manifest;
+}
+
+/**
+ * Dimensions and responsive variants of an image under public/, by its site
+ * path, or null when the image was not processed and is served as-is.
+ */
+export function getImageInfo(src: string): ImageInfo | null {
+  return loadManifest()[src] ?? null;
+}
@@ -1,13 +1,48 @@
 import { remark } from 'remark';
+import remarkDirective from 'remark-directive';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import remarkRehype from 'remark-rehype';
+import { toString } from 'mdast-util-to-string';
 import rehypeHighlight from 'rehype-highlight';
 import rehypeKatex from 'rehype-katex';
 import rehypeStringify from 'rehype-stringify';
 import rehypeSlug from 'rehype-slug';
+import type { PluggableList } from 'unified';
+import rehypeSidenotes from './rehype-sidenotes';
+import rehypeFigures from './rehype-figures';
+import rehypeHeadingAnchors from './rehype-heading-anchors';
+import rehypeResponsiveImages from './rehype-responsive-images';
+import { highlightLanguages } from './highlight-languages';
+import remarkCallouts from './remark-callouts';
+import { rehypeCodeBlocks, rehypeCodeMeta } from './rehype-code-blocks';
+import { type TocDepth, type TocItem, rehypeCollectToc } from './toc';
 
-export async function markdownToHtml(markdown: string): Promise<string> {
+/**
+ * Plugins shared by the Markdown pipeline below and the MDX compiler in
+ * `mdx.ts`, so both formats parse and highlight content the same way.
+ */
+export const remarkPlugins: PluggableList = [remarkGfm, remarkMath, remarkDirective, remarkCallouts];
+
+export const rehypePlugins: PluggableList = [
+  [rehypeKatex, { output: 'html' }],
+  rehypeCodeMeta,
+  [rehypeHighlight, { languages: highlightLanguages }],
+  rehypeCodeBlocks,
+  rehypeSlug,
+  rehypeHeadingAnchors,
+  rehypeSidenotes,
+  rehypeFigures,
+  rehypeResponsiveImages,
+];
+
+export interface RenderedMarkdown {
+  html: string;
+  /** Headings down to the requested depth, with the ids the HTML uses. */
+  toc: TocItem[];
+}
+
+export async function renderMarkdown(markdown: string, tocDepth?: TocDepth): Promise<RenderedMarkdown> {
   // Replace mermaid code blocks with React component placeholders
   const processedMarkdown = markdown.replace(
     /```mermaid\n([\s\S]*?)\n```/g,
@@ -17,13 +52,12 @@ export async function markdownToHtml(markdown: string): Promise<string> {
     }
   );
 
+  const toc: TocItem[] = [];
   const result = await remark()
-    .use(remarkGfm)
-    .use(remarkMath)
+    .use(remarkPlugins)
     .use(remarkRehype, { allowDangerousHtml: true })
-    .use(rehypeKatex, { output: 'html' })
-    .use(rehypeHighlight)
-    .use(rehypeSlug)
+    .use(rehypePlugins)
+    .use(rehypeCollectToc, { items: toc, depth: tocDepth })
     .use(rehypeStringify, { allowDangerousHtml: true })
     .process(processedMarkdown);
   
@@ -39,5 +73,15 @@ export async function markdownToHtml(markdown: string): Promise<string> {
     }
   );
 
+  return { html, toc };
+}
+
+export async function markdownToHtml(markdown: string): Promise<string> {
+  const { html } = await renderMarkdown(markdown);
   return html;
 }
+
+/** The text of a short Markdown snippet, for meta descriptions and the like. */
+export function markdownToText(markdown: string): string {
+  return toString(remark().use(remarkGfm).parse(markdown)).replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,56 @@
+import { compileMDX } from 'next-mdx-remote/rsc';
+import { visit } from 'unist-util-visit';
+import type { Root } from 'mdast';
+import type { ReactElement } from 'react';
+import MermaidChart from '@/components/MermaidChart';
+import Callout from '@/components/Callout';
+import Figure from '@/components/Figure';
+import { rehypePlugins, remarkPlugins } from './markdown';
+import { type TocDepth, type TocItem, rehypeCollectToc } from './toc';
+
+/**
+ * Components that `.mdx` posts can use without importing them.
+ */
+export const mdxComponents = {
+  MermaidDiagram: MermaidChart,
+  Callout,
+  Figure,
+};
+
+/**
+ * Turns ```mermaid fences into <MermaidDiagram chart="..." /> elements so MDX
+ * posts can use the same fences as Markdown posts.
+ */
+function remarkMermaidComponent() {
+  return (tree: Root) => {
+    visit(tree, 'code', (node, index, parent) => {
+      if (node.lang !== 'mermaid' || !parent || index === undefined) return;
+
+      parent.children[index] = {
+        type: 'mdxJsxFlowElement',
+        name: 'MermaidDiagram',
+        attributes: [{ type: 'mdxJsxAttribute', name: 'chart', value: node.value.trim() }],
+        children: [],
+      };
+    });
+  };
+}
+
+export async function renderMdx(
+  source: string,
+  tocDepth?: TocDepth
+): Promise<{ content: ReactElement; toc: TocItem[] }> {
+  const toc: TocItem[] = [];
+  const { content } = await compileMDX({
+    source,
+    components: mdxComponents,
+    options: {
+      mdxOptions: {
+        remarkPlugins: [...remarkPlugins, remarkMermaidComponent],
+        rehypePlugins: [...rehypePlugins, [rehypeCollectToc, { items: toc, depth: tocDepth }]],
+      },
+    },
+  });
+
+  return { content, toc };
+}
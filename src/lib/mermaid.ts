@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import mermaidThemes from './mermaid-themes.json';
+
+export interface PrerenderedMermaid {
+  light: string;
+  dark: string;
+}
+
+/**
+ * Written by `scripts/prerender-mermaid.js` before `next build`. Must match
+ * the directory and key the script uses.
+ */
+const cacheDirectory = path.join(process.cwd(), '.cache/mermaid');
+
+export function mermaidChartKey(chart: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${JSON.stringify(mermaidThemes)}\n${chart.trim()}`)
+    .digest('hex');
+}
+
+/**
+ * The light and dark SVGs rendered for a chart at build time, or null when
+ * the chart was not pre-rendered and has to be rendered in the browser.
+ */
+export function getPrerenderedMermaid(chart: string): PrerenderedMermaid | null {
+  try {
+    const fileContents = fs.readFileSync(path.join(cacheDirectory, `${mermaidChartKey(chart)}.json`), 'utf8');
+    return JSON.parse(fileContents) as PrerenderedMermaid;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,204 @@
+import { execFileSync } from 'child_process';
+import path from 'path';
+import matter from 'gray-matter';
+import { normalizeTags, tagToSlug } from './tags';
+import { canonicalTags } from './tag-registry';
+import { FrontmatterIssue, validatePostFrontmatter } from './frontmatter';
+import { DEFAULT_TOC_DEPTH, TocDepth } from './toc';
+
+export const postsDirectory = path.join(process.cwd(), 'content/posts');
+
+export type PostStatus = 'published' | 'draft' | 'scheduled';
+
+export type PostFormat = 'md' | 'mdx';
+
+const POST_EXTENSIONS: Record<PostFormat, string> = {
+  md: '.md',
+  mdx: '.mdx',
+};
+
+export interface Post {
+  slug: string;
+  title: string;
+  date: string;
+  updated: string;
+  tags: string[];
+  excerpt?: string;
+  summary?: string;
+  content: string;
+  format: PostFormat;
+  readingTime: number;
+  status: PostStatus;
+  publishAt?: string;
+  series?: string;
+  seriesPart?: number;
+  /** Former slugs that redirect to this post. */
+  aliases: string[];
+  /** Site path or URL of a cover image for link previews. */
+  image?: string;
+  /** Deepest heading level in the table of contents, or null for none. */
+  tocDepth: TocDepth | null;
+  /** Tag slug whose posts the previous/next links stay within. */
+  navigationTag?: string;
+}
+
+function calculateReadingTime(content: string): number {
+  const wordsPerMinute = 200;
+  const words = content.trim().split(/\s+/).length;
+  return Math.ceil(words / wordsPerMinute);
+}
+
+const lastCommitDates = new Map<string, string | undefined>();
+
+/**
+ * Date of the last commit touching the file, or undefined outside a git
+ * checkout or for files that have not been committed yet.
+ */
+function getLastCommitDate(filePath: string): string | undefined {
+  if (lastCommitDates.has(filePath)) {
+    return lastCommitDates.get(filePath);
+  }
+
+  let date: string | undefined;
+  try {
+    const output = execFileSync('git', ['log', '-1', '--format=%cI', '--', filePath], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    date = output || undefined;
+  } catch {
+    date = undefined;
+  }
+
+  lastCommitDates.set(filePath, date);
+  return date;
+}
+
+/**
+ * A post counts as updated from the frontmatter `updated` date, or else from
+ * its last commit. Revisions are never reported as older than the post itself.
+ */
+function resolveUpdatedDate(date: string, updated: string | undefined, filePath: string): string {
+  const candidate = updated ?? getLastCommitDate(filePath);
+
+  if (!candidate || new Date(candidate).getTime() <= new Date(date).getTime()) {
+    return date;
+  }
+
+  return candidate;
+}
+
+function generateExcerpt(content: string): string {
+  // Remove frontmatter first
+  const contentWithoutFrontmatter = content.replace(/^---[\s\S]*?---/, '').trim();
+  
+  // Remove mermaid code blocks
+  const contentWithoutMermaid = contentWithoutFrontmatter.replace(/```mermaid[\s\S]*?```/g, '');
+
+  // Remove :::note, :::details and other directive blocks, including nested ones
+  const contentWithoutCallouts = contentWithoutMermaid.replace(/^(:{3,})[a-z][\s\S]*?^\1[ \t]*$/gm, '');
+
+  // Split into paragraphs (separated by double newlines)
+  const paragraphs = contentWithoutCallouts.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+  
+  if (paragraphs.length === 0) return '';
+  
+  // Find the first non-empty paragraph that's not just a header
+  let firstParagraph = '';
+  for (const paragraph of paragraphs) {
+    const cleaned = paragraph
+      .replace(/#{1,6}\s+/g, '') // Remove headers
+      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
+      .replace(/\*(.*?)\*/g, '$1') // Remove italic
+      .replace(/\[(.*?)\]\(.*?\)/g, '$1') // Remove links, keep text
+      .replace(/`(.*?)`/g, '$1') // Remove inline code
+      .replace(/\n+/g, ' ') // Replace newlines with spaces
+      .trim();
+    
+    if (cleaned.length > 20) { // Only use paragraphs with substantial content
+      firstParagraph = cleaned;
+      break;
+    }
+  }
+    
+  return firstParagraph;
+}
+
+/**
+ * Drops MDX-only syntax (ESM lines, JSX tags and comments) while keeping the
+ * text between tags, so excerpts and reading time see the same prose a
+ * Markdown post would.
+ */
+export function stripMdxSyntax(content: string): string {
+  return content
+    .replace(/^(?:import|export)\s.*$/gm, '') // ESM statements
+    .replace(/\{\/\*[\s\S]*?\*\/\}/g, '') // {/* comments */}
+    .replace(/<\/?[A-Z][\w.]*(?:\s[^>]*)?\/?>/g, ''); // Component tags
+}
+
+export function getPostFormat(fileName: string): PostFormat | null {
+  if (fileName.endsWith(POST_EXTENSIONS.mdx)) return 'mdx';
+  if (fileName.endsWith(POST_EXTENSIONS.md)) return 'md';
+  return null;
+}
+
+function getPostStatus(draft: boolean | undefined, publishAt: string | undefined): PostStatus {
+  if (draft) {
+    return 'draft';
+  }
+
+  if (publishAt && new Date(publishAt).getTime() > Date.now()) {
+    return 'scheduled';
+  }
+
+  return 'published';
+}
+
+export function parsePostFile(
+  slug: string,
+  fileName: string,
+  fileContents: string
+): { post: Post; issues: FrontmatterIssue[] } {
+  const { data, content } = matter(fileContents);
+  const format = getPostFormat(fileName) ?? 'md';
+  const text = format === 'mdx' ? stripMdxSyntax(content) : content;
+  const { frontmatter, issues } = validatePostFrontmatter(
+    path.join('content/posts', fileName),
+    slug,
+    data
+  );
+  const tags = canonicalTags(normalizeTags(frontmatter.tags));
+  const navigationTag = frontmatter.navigationTag && canonicalTags([tagToSlug(frontmatter.navigationTag)])[0];
+
+  if (navigationTag && !tags.includes(navigationTag)) {
+    issues.push({
+      file: path.join('content/posts', fileName),
+      field: 'navigationTag',
+      message: `"${frontmatter.navigationTag}" is not one of the post's tags`,
+    });
+  }
+
+  return {
+    post: {
+      slug,
+      title: frontmatter.title,
+      date: frontmatter.date,
+      updated: resolveUpdatedDate(frontmatter.date, frontmatter.updated, path.join(postsDirectory, fileName)),
+      tags,
+      excerpt: frontmatter.excerpt || generateExcerpt(frontmatter.summary ? frontmatter.summary + '\n\n' + text : text),
+      summary: frontmatter.summary,
+      content,
+      format,
+      readingTime: calculateReadingTime(text),
+      status: getPostStatus(frontmatter.draft, frontmatter.publishAt),
+      publishAt: frontmatter.publishAt,
+      series: frontmatter.series,
+      seriesPart: frontmatter.seriesPart,
+      aliases: frontmatter.aliases ?? [],
+      image: frontmatter.image,
+      tocDepth: frontmatter.toc === false ? null : ((frontmatter.tocDepth as TocDepth | undefined) ?? DEFAULT_TOC_DEPTH),
+      navigationTag,
+    },
+    issues,
+  };
+}
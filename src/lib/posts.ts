@@ -1,46 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import matter from 'gray-matter';
-import { normalizeTags, normalizeTagSlug, tagToSlug } from './tags';
+import { normalizeTagSlug, tagToSlug } from './tags';
+import { getContentStore } from './content-store';
+import { getTagDefinition, getTagRegistry } from './tag-registry';
+import { getRelatedPostsIndex } from './related-posts';
+import type { Post } from './post-file';
 
-function calculateReadingTime(content: string): number {
-  const wordsPerMinute = 200;
-  const words = content.trim().split(/\s+/).length;
-  return Math.ceil(words / wordsPerMinute);
-}
-
-function generateExcerpt(content: string): string {
-  // Remove frontmatter first
-  const contentWithoutFrontmatter = content.replace(/^---[\s\S]*?---/, '').trim();
-  
-  // Remove mermaid code blocks
-  const contentWithoutMermaid = contentWithoutFrontmatter.replace(/```mermaid[\s\S]*?```/g, '');
-  
-  // Split into paragraphs (separated by double newlines)
-  const paragraphs = contentWithoutMermaid.split(/\n\s*\n/).filter(p => p.trim().length > 0);
-  
-  if (paragraphs.length === 0) return '';
-  
-  // Find the first non-empty paragraph that's not just a header
-  let firstParagraph = '';
-  for (const paragraph of paragraphs) {
-    const cleaned = paragraph
-      .replace(/#{1,6}\s+/g, '') // Remove headers
-      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-      .replace(/\*(.*?)\*/g, '$1') // Remove italic
-      .replace(/\[(.*?)\]\(.*?\)/g, '$1') // Remove links, keep text
-      .replace(/`(.*?)`/g, '$1') // Remove inline code
-      .replace(/\n+/g, ' ') // Replace newlines with spaces
-      .trim();
-    
-    if (cleaned.length > 20) { // Only use paragraphs with substantial content
-      firstParagraph = cleaned;
-      break;
-    }
-  }
-    
-  return firstParagraph;
-}
+export type { Post, PostFormat, PostStatus } from './post-file';
+export { isPreviewMode } from './content-store';
 
 export function truncateAtWordBoundary(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -55,96 +23,88 @@ export function truncateAtWordBoundary(text: string, maxLength: number): string
   return truncated.slice(0, lastSpaceIndex) + '...';
 }
 
-const postsDirectory = path.join(process.cwd(), 'content/posts');
-
-export interface Post {
-  slug: string;
-  title: string;
-  date: string;
-  tags: string[];
-  excerpt?: string;
-  summary?: string;
-  content: string;
-  readingTime: number;
-}
-
 export interface Tag {
   label: string;
   slug: string;
   count: number;
+  /** Markdown from `content/tags.yml`. */
+  description?: string;
+  parent?: string;
 }
 
-function parsePostFile(slug: string, fileContents: string): Post {
-  const { data, content } = matter(fileContents);
+export interface Series {
+  title: string;
+  slug: string;
+  posts: Post[];
+}
 
-  return {
-    slug,
-    title: data.title,
-    date: data.date,
-    tags: normalizeTags(data.tags),
-    excerpt: data.excerpt || generateExcerpt(data.summary ? data.summary + '\n\n' + content : content),
-    summary: data.summary,
-    content,
-    readingTime: calculateReadingTime(content),
-  };
+export interface AdjacentPosts {
+  /** The next older post. */
+  previous: Post | null;
+  /** The next newer post. */
+  next: Post | null;
+  /** Set when the links stay within the post's `navigationTag`. */
+  tag?: Tag;
 }
 
-export function getAllPosts(): Post[] {
-  const fileNames = fs.readdirSync(postsDirectory);
-  const allPostsData = fileNames
-    .filter(fileName => fileName.endsWith('.md'))
-    .map((fileName) => {
-      const slug = fileName.replace(/\.md$/, '');
-      const fullPath = path.join(postsDirectory, fileName);
-      const fileContents = fs.readFileSync(fullPath, 'utf8');
-      return parsePostFile(slug, fileContents);
-    });
+export interface ArchiveMonth {
+  /** 1–12 */
+  month: number;
+  posts: Post[];
+}
 
-  return allPostsData.sort((a, b) => (a.date < b.date ? 1 : -1));
+export interface ArchiveYear {
+  year: string;
+  count: number;
+  months: ArchiveMonth[];
 }
 
-export function getPostsPage(page: number = 1, postsPerPage: number = 5) {
-  const allPosts = getAllPosts();
+export function getAllPosts(): Post[] {
+  return getContentStore().byDate.slice();
+}
+
+function paginate(posts: Post[], page: number, postsPerPage: number) {
   const startIndex = (page - 1) * postsPerPage;
   const endIndex = startIndex + postsPerPage;
   
   return {
-    posts: allPosts.slice(startIndex, endIndex),
-    totalPosts: allPosts.length,
-    totalPages: Math.ceil(allPosts.length / postsPerPage),
+    posts: posts.slice(startIndex, endIndex),
+    totalPosts: posts.length,
+    totalPages: Math.ceil(posts.length / postsPerPage),
     currentPage: page,
-    hasNextPage: endIndex < allPosts.length,
+    hasNextPage: endIndex < posts.length,
     hasPrevPage: page > 1,
   };
 }
 
+export function getPostsPage(page: number = 1, postsPerPage: number = 5) {
+  return paginate(getAllPosts(), page, postsPerPage);
+}
+
 export function getPostBySlug(slug: string): Post | null {
-  try {
-    const fullPath = path.join(postsDirectory, `${slug}.md`);
-    const fileContents = fs.readFileSync(fullPath, 'utf8');
-    return parsePostFile(slug, fileContents);
-  } catch {
-    return null;
-  }
+  return getContentStore().bySlug.get(slug) ?? null;
 }
 
-export function getAllTags(): Tag[] {
-  const tagsBySlug = new Map<string, Tag>();
+/** The post a former slug now redirects to. */
+export function getPostByAlias(alias: string): Post | null {
+  return getContentStore().byAlias.get(alias) ?? null;
+}
 
-  for (const post of getAllPosts()) {
-    for (const tag of post.tags) {
-      const slug = tagToSlug(tag);
-      const existing = tagsBySlug.get(slug);
-
-      tagsBySlug.set(slug, {
-        label: existing?.label ?? tag,
-        slug,
-        count: (existing?.count ?? 0) + 1,
-      });
-    }
-  }
+function toTag(slug: string, count: number): Tag {
+  const definition = getTagDefinition(slug);
+  return {
+    label: definition?.label ?? slug,
+    slug,
+    count,
+    description: definition?.description,
+    parent: definition?.parent,
+  };
+}
+
+export function getAllTags(): Tag[] {
+  const tags = Array.from(getContentStore().byTag, ([slug, posts]) => toTag(slug, posts.length));
 
-  return Array.from(tagsBySlug.values()).sort((a, b) => {
+  return tags.sort((a, b) => {
     if (b.count !== a.count) {
       return b.count - a.count;
     }
@@ -153,43 +113,106 @@ export function getAllTags(): Tag[] {
   });
 }
 
+/** Looks the tag up by slug or by one of its aliases. */
 export function getTagBySlug(slug: string): Tag | null {
   const normalizedSlug = normalizeTagSlug(slug);
-  return getAllTags().find((tag) => tag.slug === normalizedSlug) ?? null;
+  const canonicalSlug = getTagRegistry().aliases.get(normalizedSlug) ?? normalizedSlug;
+  const posts = getContentStore().byTag.get(canonicalSlug);
+
+  return posts ? toTag(canonicalSlug, posts.length) : null;
+}
+
+/** Tags whose registry `parent` is the given tag and that have posts. */
+export function getChildTags(slug: string): Tag[] {
+  return getAllTags().filter((tag) => tag.parent === slug);
 }
 
 export function getPostsByTag(slug: string): Post[] {
   const normalizedSlug = normalizeTagSlug(slug);
+  const canonicalSlug = getTagRegistry().aliases.get(normalizedSlug) ?? normalizedSlug;
+  return getContentStore().byTag.get(canonicalSlug)?.slice() ?? [];
+}
+
+export function getTagPostsPage(slug: string, page: number = 1, postsPerPage: number = 5) {
+  return paginate(getPostsByTag(slug), page, postsPerPage);
+}
+
+/**
+ * The posts published just before and after this one, among all posts or,
+ * when the post sets `navigationTag`, among the posts with that tag.
+ */
+export function getAdjacentPosts(slug: string): AdjacentPosts {
+  const post = getPostBySlug(slug);
+  if (!post) return { previous: null, next: null };
+
+  const tag = post.navigationTag ? getTagBySlug(post.navigationTag) ?? undefined : undefined;
+  // Newest first, so older posts come after this one
+  const posts = tag ? getPostsByTag(tag.slug) : getAllPosts();
+  const index = posts.findIndex((candidate) => candidate.slug === slug);
+
+  return {
+    previous: posts[index + 1] ?? null,
+    next: index > 0 ? posts[index - 1] : null,
+    tag,
+  };
+}
+
+/** Every series, most recently started first, with its parts in reading order. */
+export function getAllSeries(): Series[] {
+  return Array.from(getContentStore().bySeries, ([slug, { title, posts }]) => ({ title, slug, posts: posts.slice() }));
+}
+
+export function getSeriesBySlug(slug: string): Series | null {
+  const normalizedSlug = normalizeTagSlug(slug);
+  const series = getContentStore().bySeries.get(normalizedSlug);
+  return series ? { title: series.title, slug: normalizedSlug, posts: series.posts.slice() } : null;
+}
+
+export function getSeriesForPost(post: Post): Series | null {
+  return post.series ? getSeriesBySlug(tagToSlug(post.series)) : null;
+}
+
+/**
+ * Posts grouped by publish year and month, newest first. Dates are read from
+ * the frontmatter string so a post never moves to another month by time zone.
+ */
+export function getArchive(): ArchiveYear[] {
+  const years: ArchiveYear[] = [];
+
+  for (const post of getAllPosts()) {
+    const year = post.date.slice(0, 4);
+    const month = parseInt(post.date.slice(5, 7), 10);
+
+    let archiveYear = years[years.length - 1];
+    if (archiveYear?.year !== year) {
+      archiveYear = { year, count: 0, months: [] };
+      years.push(archiveYear);
+    }
+
+    let archiveMonth = archiveYear.months[archiveYear.months.length - 1];
+    if (archiveMonth?.month !== month) {
+      archiveMonth = { month, posts: [] };
+      archiveYear.months.push(archiveMonth);
+    }
+
+    archiveMonth.posts.push(post);
+    archiveYear.count++;
+  }
+
+  return years;
+}
 
-  return getAllPosts().filter((post) =>
-    post.tags.some((tag) => tagToSlug(tag) === normalizedSlug)
-  );
+export function getArchiveYear(year: string): ArchiveYear | null {
+  return getArchive().find((archiveYear) => archiveYear.year === year) ?? null;
 }
 
+/**
+ * The posts most similar in text and tags, from the scores
+ * `related-posts.ts` computes once for the whole corpus.
+ */
 export function getRelatedPosts(slug: string, limit: number = 3): Post[] {
-  const targetPost = getPostBySlug(slug);
-  if (!targetPost) return [];
-
-  const allPosts = getAllPosts();
-  const targetTagSlugs = new Set(targetPost.tags.map(tagToSlug));
-
-  // Score posts by shared tags
-  const scored = allPosts
-    .filter((post) => post.slug !== slug)
-    .map((post) => {
-      const sharedTags = post.tags.filter((tag) => targetTagSlugs.has(tagToSlug(tag))).length;
-      return { post, score: sharedTags };
-    })
-    .filter((item) => item.score > 0)
-    .sort((a, b) => {
-      if (b.score !== a.score) return b.score - a.score;
-      // Tie-break by recency
-      return new Date(b.post.date).getTime() - new Date(a.post.date).getTime();
-    })
-    .slice(0, limit)
-    .map((item) => item.post);
-
-  return scored;
+  const related = getRelatedPostsIndex().get(slug) ?? [];
+  return related.slice(0, limit).map(({ post }) => post);
 }
 
 export function getAboutPage() {
@@ -0,0 +1,177 @@
+import type { Element, ElementContent, Root } from 'hast';
+import { visit } from 'unist-util-visit';
+
+type DiffMarker = 'add' | 'remove' | null;
+
+interface CodeBlockInfo {
+  title?: string;
+  highlightedLines: Set<number>;
+  diffMarkers?: DiffMarker[];
+}
+
+// Shared between the two passes below, which run on the same tree
+const codeBlocks = new WeakMap<Element, CodeBlockInfo>();
+
+/**
+ * Parses fence metadata such as `title="orchestrator.ts" {3-5,9}`.
+ */
+function parseMeta(meta: string): Omit<CodeBlockInfo, 'diffMarkers'> {
+  const title = meta.match(/title=(?:"([^"]*)"|'([^']*)')/);
+  const highlightedLines = new Set<number>();
+  const ranges = meta.replace(/title=(?:"[^"]*"|'[^']*')/, '').match(/\{([\d,\s-]+)\}/);
+
+  for (const range of ranges?.[1].split(',') ?? []) {
+    const [start, end = start] = range.trim().split('-').map(Number);
+    if (!Number.isInteger(start) || !Number.isInteger(end)) continue;
+    for (let line = start; line <= end; line++) {
+      highlightedLines.add(line);
+    }
+  }
+
+  return { title: title?.[1] ?? title?.[2], highlightedLines };
+}
+
+function getCodeChild(pre: Element): Element | undefined {
+  return pre.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+}
+
+function getClassNames(element: Element): string[] {
+  const className = element.properties.className;
+  return Array.isArray(className) ? className.map(String) : [];
+}
+
+/**
+ * First pass, before highlighting: reads fence metadata and turns `diff` and
+ * `diff-<lang>` fences into plain code plus per-line markers, so the code can
+ * be highlighted in its own language and copied without `+`/`-` prefixes.
+ */
+export function rehypeCodeMeta() {
+  return (tree: Root) => {
+    visit(tree, 'element', (pre) => {
+      if (pre.tagName !== 'pre') return;
+
+      const code = getCodeChild(pre);
+      if (!code) return;
+
+      const meta = typeof code.data?.meta === 'string' ? code.data.meta : '';
+      const info: CodeBlockInfo = parseMeta(meta);
+      const classNames = getClassNames(code);
+      const diffClass = classNames.find((name) => /^language-diff(?:-|$)/.test(name));
+
+      if (diffClass && code.children.length === 1 && code.children[0].type === 'text') {
+        const lines = code.children[0].value.replace(/\n$/, '').split('\n');
+        info.diffMarkers = lines.map((line) => (line.startsWith('+') ? 'add' : line.startsWith('-') ? 'remove' : null));
+        code.children[0].value = lines.map((line) => (/^[+\- ]/.test(line) ? line.slice(1) : line)).join('\n') + '\n';
+
+        const language = diffClass.slice('language-diff-'.length);
+        code.properties.className = classNames
+          .filter((name) => name !== diffClass)
+          .concat(language ? [`language-${language}`] : []);
+      }
+
+      codeBlocks.set(pre, info);
+    });
+  };
+}
+
+/**
+ * Splits highlighted children into lines. Highlight spans that cross a line
+ * break are cloned onto each line they cover.
+ */
+function splitLines(nodes: ElementContent[]): ElementContent[][] {
+  const lines: ElementContent[][] = [[]];
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      node.value.split('\n').forEach((part, index) => {
+        if (index > 0) lines.push([]);
+        if (part) lines[lines.length - 1].push({ type: 'text', value: part });
+      });
+    } else if (node.type === 'element') {
+      splitLines(node.children).forEach((childLine, index) => {
+        if (index > 0) lines.push([]);
+        if (childLine.length > 0) lines[lines.length - 1].push({ ...node, children: childLine });
+      });
+    } else {
+      lines[lines.length - 1].push(node);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Second pass, after highlighting: wraps every line in a `.code-line` span
+ * carrying its highlight and diff classes, and wraps the block with its title
+ * and a copy button. The button stays hidden until `CodeBlockEnhancer` wires
+ * it up, so it never shows without JavaScript.
+ */
+export function rehypeCodeBlocks() {
+  return (tree: Root) => {
+    visit(tree, 'element', (pre, index, parent) => {
+      if (pre.tagName !== 'pre' || !parent || index === undefined) return;
+
+      const info = codeBlocks.get(pre);
+      const code = getCodeChild(pre);
+      if (!info || !code) return;
+
+      const lines = splitLines(code.children);
+      if (lines.length > 1 && lines[lines.length - 1].length === 0) {
+        lines.pop();
+      }
+
+      code.children = lines.flatMap((line, lineIndex): ElementContent[] => {
+        const lineNumber = lineIndex + 1;
+        const marker = info.diffMarkers?.[lineIndex];
+        const classNames = ['code-line'];
+        if (info.highlightedLines.has(lineNumber)) classNames.push('code-line-highlighted');
+        if (marker) classNames.push(`diff-${marker}`);
+
+        const span: Element = {
+          type: 'element',
+          tagName: 'span',
+          properties: { className: classNames },
+          children: line,
+        };
+
+        return lineIndex === 0 ? [span] : [{ type: 'text', value: '\n' }, span];
+      });
+      code.properties.className = [...getClassNames(code), 'code-lines'];
+
+      const wrapperClassNames = ['code-block'];
+      if (info.diffMarkers) wrapperClassNames.push('code-block-diff');
+
+      const wrapper: Element = {
+        type: 'element',
+        tagName: 'div',
+        properties: { className: wrapperClassNames },
+        children: [
+          ...(info.title
+            ? [{
+                type: 'element' as const,
+                tagName: 'div',
+                properties: { className: ['code-title'] },
+                children: [{ type: 'text' as const, value: info.title }],
+              }]
+            : []),
+          pre,
+          {
+            type: 'element',
+            tagName: 'button',
+            properties: {
+              type: 'button',
+              className: ['code-copy'],
+              dataCopyCode: true,
+              ariaLabel: info.title ? `Copy ${info.title} to clipboard` : 'Copy code to clipboard',
+              hidden: true,
+            },
+            children: [{ type: 'text', value: 'Copy' }],
+          },
+        ],
+      };
+
+      parent.children[index] = wrapper;
+      return 'skip';
+    });
+  };
+}
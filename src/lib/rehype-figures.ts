@@ -0,0 +1,61 @@
+import type { Element, ElementContent, Root } from 'hast';
+import { visit } from 'unist-util-visit';
+import { getImageInfo } from './images';
+
+function isWhitespace(node: ElementContent): boolean {
+  return node.type === 'text' && node.value.trim() === '';
+}
+
+/**
+ * Turns paragraphs holding nothing but an image into figures. The Markdown
+ * title (`![alt](src "Title")`), or else the alt text, becomes the caption,
+ * and the image links to its full-resolution `_o` original, which
+ * `ImageLightbox` opens in place. Images inside text or links are left alone.
+ */
+export default function rehypeFigures() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node, index, parent) => {
+      if (node.tagName !== 'p' || !parent || index === undefined) return;
+
+      const children = node.children.filter((child) => !isWhitespace(child));
+      const [img] = children;
+      if (children.length !== 1 || img.type !== 'element' || img.tagName !== 'img') return;
+      if (typeof img.properties.src !== 'string') return;
+
+      const alt = typeof img.properties.alt === 'string' ? img.properties.alt : '';
+      const title = typeof img.properties.title === 'string' ? img.properties.title : '';
+      const caption = title || alt;
+      delete img.properties.title;
+
+      const figure: Element = {
+        type: 'element',
+        tagName: 'figure',
+        properties: { className: ['post-figure'] },
+        children: [
+          {
+            type: 'element',
+            tagName: 'a',
+            properties: {
+              href: getImageInfo(img.properties.src)?.original ?? img.properties.src,
+              className: ['figure-zoom'],
+              dataFigureZoom: true,
+              ariaLabel: alt ? `Enlarge image: ${alt}` : 'Enlarge image',
+            },
+            children: [img],
+          },
+          ...(caption
+            ? [{
+                type: 'element' as const,
+                tagName: 'figcaption',
+                properties: {},
+                children: [{ type: 'text' as const, value: caption }],
+              }]
+            : []),
+        ],
+      };
+
+      parent.children[index] = figure;
+      return 'skip';
+    });
+  };
+}
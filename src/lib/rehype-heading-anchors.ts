@@ -0,0 +1,36 @@
+import type { Root } from 'hast';
+import { headingRank } from 'hast-util-heading-rank';
+import { visit } from 'unist-util-visit';
+import { headingText } from './toc';
+
+/**
+ * Appends a "#" link to every visible h2–h4 that `rehype-slug` gave an id. The link
+ * works as a plain fragment link; `HeadingAnchors` also copies the deep URL
+ * when it is clicked.
+ */
+export default function rehypeHeadingAnchors() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node) => {
+      const rank = headingRank(node);
+      const id = node.properties.id;
+      if (!rank || rank < 2 || rank > 4 || typeof id !== 'string') return;
+
+      // The footnotes section has a visually hidden heading
+      const className = node.properties.className;
+      if (Array.isArray(className) && className.includes('sr-only')) return;
+
+      node.children.push({
+        type: 'element',
+        tagName: 'a',
+        properties: {
+          href: `#${id}`,
+          className: ['heading-anchor'],
+          dataHeadingAnchor: true,
+          ariaLabel: `Copy link to section: ${headingText(node.children).trim()}`,
+        },
+        children: [{ type: 'text', value: '#' }],
+      });
+      return 'skip';
+    });
+  };
+}
@@ -0,0 +1,45 @@
+import type { Element, Root } from 'hast';
+import { visit } from 'unist-util-visit';
+import { IMAGE_SIZES, getImageInfo } from './images';
+
+/**
+ * Gives every processed image its intrinsic dimensions so it reserves space
+ * before loading, and wraps those with generated variants in a <picture>
+ * offering AVIF and WebP srcsets. The original file stays the fallback `src`.
+ */
+export default function rehypeResponsiveImages() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node, index, parent) => {
+      if (node.tagName !== 'img' || typeof node.properties.src !== 'string') return;
+
+      const info = getImageInfo(node.properties.src);
+      if (!info) return;
+
+      node.properties.width ??= info.width;
+      node.properties.height ??= info.height;
+      node.properties.loading ??= 'lazy';
+      node.properties.decoding ??= 'async';
+
+      if (info.sources.length === 0 || !parent || index === undefined) return;
+      if (parent.type === 'element' && parent.tagName === 'picture') return;
+
+      const picture: Element = {
+        type: 'element',
+        tagName: 'picture',
+        properties: {},
+        children: [
+          ...info.sources.map((source): Element => ({
+            type: 'element',
+            tagName: 'source',
+            properties: { type: source.type, srcSet: source.srcset, sizes: IMAGE_SIZES },
+            children: [],
+          })),
+          node,
+        ],
+      };
+
+      parent.children[index] = picture;
+      return 'skip';
+    });
+  };
+}
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Element, Root } from 'hast';
+import { remark } from 'remark';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import { visit } from 'unist-util-visit';
+import { renderMarkdown } from './markdown';
+import rehypeSidenotes from './rehype-sidenotes';
+
+async function sidenoteOf(footnote: string): Promise<{ html: string; sidenote: string }> {
+  const { html } = await renderMarkdown(`Text with a note.[^1]\n\n[^1]: ${footnote}\n`);
+  const start = html.indexOf('<span class="sidenote" role="note">');
+  assert.notEqual(start, -1, 'expected a sidenote');
+  // The sidenote is the last thing in the referencing paragraph
+  return { html, sidenote: html.slice(start, html.indexOf('</p>', start)) };
+}
+
+describe('rehypeSidenotes', () => {
+  it('puts each list item of a footnote on a line of its own', async () => {
+    const { sidenote } = await sidenoteOf('Options:\n\n    - first\n    - second\n');
+
+    assert.doesNotMatch(sidenote, /<(?:ul|ol|li|p)\b/);
+    assert.match(sidenote, /Options:<br>• first<br>• second/);
+  });
+
+  it('numbers ordered list items from their start', async () => {
+    const { sidenote } = await sidenoteOf('Steps:\n\n    3. third\n    4. fourth\n');
+
+    assert.match(sidenote, /Steps:<br>3\. third<br>4\. fourth/);
+  });
+
+  it('keeps a code block as preformatted code', async () => {
+    const { sidenote } = await sidenoteOf('Run:\n\n    ```sh\n    npm install\n    npm run build\n    ```\n');
+
+    assert.doesNotMatch(sidenote, /<(?:pre|div|button)\b/);
+    assert.match(sidenote, /<code class="language-sh sidenote-code">/);
+    assert.match(sidenote, /npm install<\/span>\n<span class="code-line">npm run build/);
+  });
+
+  it('leaves footnotes with blocks it cannot inline in the footnote list', async () => {
+    const { html } = await renderMarkdown('Text.[^1]\n\n[^1]: A table:\n\n    | a |\n    |---|\n    | b |\n');
+
+    assert.doesNotMatch(html, /class="sidenote"/);
+    assert.match(html, /<section data-footnotes/);
+  });
+
+  it('gives every copy of the reference number its own nodes', async () => {
+    const processor = remark().use(remarkGfm).use(remarkRehype).use(rehypeSidenotes);
+    const tree = (await processor.run(processor.parse('Text.[^1]\n\n[^1]: Plain.\n'))) as Root;
+    const numberClasses = ['sidenote-link', 'sidenote-toggle', 'sidenote-number'];
+    const numbers: Element['children'][] = [];
+
+    visit(tree, 'element', (node) => {
+      const className = node.properties.className;
+      if (Array.isArray(className) && numberClasses.includes(String(className[0]))) numbers.push(node.children);
+    });
+
+    assert.equal(numbers.length, 3);
+    assert.equal(new Set(numbers).size, 3);
+    assert.equal(new Set(numbers.flat()).size, 3);
+  });
+});
@@ -0,0 +1,203 @@
+import type { Element, ElementContent, Root } from 'hast';
+import { visit } from 'unist-util-visit';
+
+const FOOTNOTE_PREFIX = '#user-content-fn-';
+
+function isElement(node: ElementContent, tagName?: string): node is Element {
+  return node.type === 'element' && (tagName === undefined || node.tagName === tagName);
+}
+
+function withoutBackrefs(nodes: ElementContent[]): ElementContent[] {
+  return nodes
+    .filter((node) => !(isElement(node, 'a') && node.properties.dataFootnoteBackref !== undefined))
+    .map((node) => (isElement(node) ? { ...node, children: withoutBackrefs(node.children) } : node));
+}
+
+// Elements allowed inside a <p>, which the sidenote ends up in
+const PHRASING_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'i', 'img', 'input',
+  'ins', 'kbd', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+function classNames(node: Element): string[] {
+  const className = node.properties.className;
+  return Array.isArray(className) ? className.map(String) : [];
+}
+
+/** A code block as a `<code>` that keeps its line breaks through `white-space: pre`. */
+function codeBlockToInline(pre: Element): Element {
+  const code = pre.children.find((child): child is Element => isElement(child, 'code'));
+  const language = code ? classNames(code).filter((name) => name.startsWith('language-')) : [];
+
+  return {
+    type: 'element',
+    tagName: 'code',
+    properties: { className: [...language, 'sidenote-code'] },
+    children: code?.children ?? pre.children,
+  };
+}
+
+/** The lines a block turns into, or null for blocks with no inline form. */
+function blockToLines(block: Element): ElementContent[][] | null {
+  switch (block.tagName) {
+    case 'p':
+      return [block.children];
+    case 'blockquote':
+      return toLines(block.children);
+    case 'pre':
+      return [[codeBlockToInline(block)]];
+    case 'div': {
+      // A fence after rehypeCodeBlocks: its title, the <pre> and a copy button
+      if (!classNames(block).includes('code-block')) return null;
+      const pre = block.children.find((child): child is Element => isElement(child, 'pre'));
+      return pre ? [[codeBlockToInline(pre)]] : null;
+    }
+    case 'ul':
+    case 'ol': {
+      const start = typeof block.properties.start === 'number' ? block.properties.start : 1;
+      const items = block.children.filter((child): child is Element => isElement(child, 'li'));
+      const lines: ElementContent[][] = [];
+
+      for (const [index, item] of items.entries()) {
+        const itemLines = toLines(item.children);
+        if (!itemLines) return null;
+
+        const marker = block.tagName === 'ol' ? `${start + index}. ` : '• ';
+        const [first = [], ...rest] = itemLines;
+        lines.push([{ type: 'text', value: marker }, ...first], ...rest);
+      }
+      return lines;
+    }
+    default:
+      return null;
+  }
+}
+
+function toLines(nodes: ElementContent[]): ElementContent[][] | null {
+  const lines: ElementContent[][] = [];
+  let inline: ElementContent[] = [];
+
+  const flush = () => {
+    if (inline.some((node) => node.type !== 'text' || node.value.trim())) lines.push(inline);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text' || (isElement(node) && PHRASING_TAGS.has(node.tagName))) {
+      inline.push(node);
+    } else if (isElement(node)) {
+      flush();
+      const blockLines = blockToLines(node);
+      if (!blockLines) return null;
+      lines.push(...blockLines);
+    }
+  }
+
+  flush();
+  return lines;
+}
+
+/**
+ * Footnote bodies become phrasing content so they can sit inside the
+ * paragraph that references them: each paragraph, list item and code block
+ * goes on a line of its own. Returns null when the footnote holds a block
+ * with no inline form, such as a table; it then stays in the footnote list
+ * only.
+ */
+function toInlineContent(nodes: ElementContent[]): ElementContent[] | null {
+  const lines = toLines(withoutBackrefs(nodes));
+  if (!lines) return null;
+
+  return lines.flatMap((line, index) =>
+    index === 0 ? line : [{ type: 'element', tagName: 'br', properties: {}, children: [] }, ...line]
+  );
+}
+
+/**
+ * Copies every GFM footnote next to its reference as a sidenote.
+ *
+ * Wide viewports float the sidenote into the right margin. Narrow viewports
+ * hide it behind the reference number, which toggles a checkbox that reveals
+ * it inline, so it works without JavaScript. The footnote list at the end of
+ * the article and its back-links are left in place, and footnotes that
+ * cannot be shown inline are only listed there.
+ */
+export default function rehypeSidenotes() {
+  return (tree: Root) => {
+    const footnotes = new Map<string, ElementContent[]>();
+
+    visit(tree, 'element', (node) => {
+      if (node.tagName !== 'li' || typeof node.properties.id !== 'string') return;
+      if (!node.properties.id.startsWith(FOOTNOTE_PREFIX.slice(1))) return;
+      const content = toInlineContent(node.children);
+      if (content) footnotes.set(`#${node.properties.id}`, content);
+    });
+
+    if (footnotes.size === 0) return;
+
+    visit(tree, 'element', (node, index, parent) => {
+      if (node.tagName !== 'sup' || !parent || index === undefined) return;
+
+      const link = node.children.find(
+        (child): child is Element => isElement(child, 'a') && child.properties.dataFootnoteRef !== undefined
+      );
+      const href = link?.properties.href;
+      if (!link || typeof href !== 'string') return;
+
+      const content = footnotes.get(href);
+      const refId = link.properties.id;
+      if (!content || typeof refId !== 'string') return;
+
+      const toggleId = `sidenote-${refId}`;
+      const number = link.children;
+      const numberText = number.map((child) => (child.type === 'text' ? child.value : '')).join('');
+
+      // Back-links target the <sup>, which stays visible at every width
+      delete link.properties.id;
+      link.properties.className = ['sidenote-link'];
+
+      const sup: Element = {
+        ...node,
+        properties: { ...node.properties, id: refId, className: ['sidenote-ref'] },
+        children: [
+          link,
+          {
+            type: 'element',
+            tagName: 'label',
+            properties: { htmlFor: [toggleId], className: ['sidenote-toggle'] },
+            children: structuredClone(number),
+          },
+        ],
+      };
+
+      parent.children.splice(
+        index,
+        1,
+        sup,
+        {
+          type: 'element',
+          tagName: 'input',
+          properties: {
+            type: 'checkbox',
+            id: toggleId,
+            className: ['sidenote-checkbox'],
+            ariaLabel: `Show footnote ${numberText}`,
+          },
+          children: [],
+        },
+        {
+          type: 'element',
+          tagName: 'span',
+          properties: { className: ['sidenote'], role: 'note' },
+          children: [
+            { type: 'element', tagName: 'span', properties: { className: ['sidenote-number'] }, children: structuredClone(number) },
+            { type: 'text', value: ' ' },
+            ...structuredClone(content),
+          ],
+        }
+      );
+
+      return index + 3;
+    });
+  };
+}
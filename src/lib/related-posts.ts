@@ -0,0 +1,235 @@
+import { remark } from 'remark';
+import type { Nodes, Root } from 'mdast';
+import { getContentStore, type ContentStore } from './content-store';
+import { remarkPlugins } from './markdown';
+import { type Post, stripMdxSyntax } from './post-file';
+
+export interface RelatedPostsWeights {
+  /** Weight of the TF-IDF cosine similarity of the posts' text. */
+  content: number;
+  /** Weight of the share of tags the posts have in common. */
+  tags: number;
+  /** How many times a word in each field counts towards its term frequency. */
+  fields: { title: number; summary: number; body: number };
+  /** Posts scoring below this are never shown as related. */
+  minScore: number;
+}
+
+/**
+ * Text similarity carries most of the score so posts without tags, or with
+ * tags no other post uses, still get related posts; shared tags decide
+ * between posts about the same thing.
+ */
+export const RELATED_POSTS_WEIGHTS: RelatedPostsWeights = {
+  content: 0.7,
+  tags: 0.3,
+  fields: { title: 3, summary: 2, body: 1 },
+  minScore: 0.05,
+};
+
+/** How many related posts are kept per post, however many a page shows. */
+const MAX_RELATED_POSTS = 10;
+const MAX_EXPLAINED_TERMS = 5;
+
+export interface RelatedPost {
+  post: Post;
+  score: number;
+  /** Cosine similarity of the posts' term vectors, 0–1. */
+  contentScore: number;
+  /** Shared tags over all tags of the two posts, 0–1. */
+  tagScore: number;
+  sharedTags: string[];
+  /** The terms that add most to `contentScore`, strongest first. */
+  sharedTerms: string[];
+}
+
+// Function words that say nothing about what a post is about
+const STOP_WORDS = new Set(
+  `about above after again against all also and any are because been before being below between both but
+  can could did does doing down during each few for from further had has have having her here hers him
+  his how however into its itself just less like made make many more most much must not now off once
+  only other our ours out over own same she should some such than that the their theirs them then there
+  these they this those through too under until use used uses using very was way well were what when
+  where which while who whom why will with would you your yours`.split(/\s+/)
+);
+
+// Code, math and raw HTML would match posts on syntax rather than subject
+const SKIPPED_NODES = new Set(['code', 'inlineCode', 'math', 'inlineMath', 'html']);
+
+function proseText(node: Nodes): string {
+  if (SKIPPED_NODES.has(node.type)) return '';
+  if ('value' in node) return node.value;
+  if ('children' in node) return node.children.map((child) => proseText(child as Nodes)).join(' ');
+  if (node.type === 'image') return node.alt ?? '';
+  return '';
+}
+
+function bodyText(post: Post): string {
+  const content = post.format === 'mdx' ? stripMdxSyntax(post.content) : post.content;
+  const tree: Root = remark().use(remarkPlugins).parse(content);
+  return proseText(tree);
+}
+
+// Folds plurals so "hook" and "hooks" count as one term
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+function terms(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && !/^\d+$/.test(word) && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function termFrequencies(post: Post, fields: RelatedPostsWeights['fields']): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of terms(text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+    }
+  };
+
+  add(post.title, fields.title);
+  add(post.summary ?? post.excerpt ?? '', fields.summary);
+  add(bodyText(post), fields.body);
+  return frequencies;
+}
+
+/** Unit-length TF-IDF vectors; terms every post uses get no weight. */
+function termVectors(posts: Post[], fields: RelatedPostsWeights['fields']): Map<string, number>[] {
+  const frequencies = posts.map((post) => termFrequencies(post, fields));
+  const documentFrequencies = new Map<string, number>();
+
+  for (const postFrequencies of frequencies) {
+    for (const term of postFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  return frequencies.map((postFrequencies) => {
+    const vector = new Map<string, number>();
+    let squaredLength = 0;
+
+    for (const [term, frequency] of postFrequencies) {
+      const weight = Math.log(1 + frequency) * Math.log(posts.length / documentFrequencies.get(term)!);
+      if (weight > 0) {
+        vector.set(term, weight);
+        squaredLength += weight * weight;
+      }
+    }
+
+    const length = Math.sqrt(squaredLength);
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / length);
+    }
+    return vector;
+  });
+}
+
+function compareTerms(a: Map<string, number>, b: Map<string, number>): { similarity: number; sharedTerms: string[] } {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  const contributions: [string, number][] = [];
+  let similarity = 0;
+
+  for (const [term, weight] of smaller) {
+    const other = larger.get(term);
+    if (other === undefined) continue;
+    similarity += weight * other;
+    contributions.push([term, weight * other]);
+  }
+
+  const sharedTerms = contributions
+    .sort((x, y) => y[1] - x[1])
+    .slice(0, MAX_EXPLAINED_TERMS)
+    .map(([term]) => term);
+
+  return { similarity, sharedTerms };
+}
+
+/**
+ * Ranks every post's related posts by a blend of how similar their title,
+ * summary and body are and how many tags they share. Returns the best few
+ * per slug, best first, with newer posts first on equal scores.
+ */
+export function computeRelatedPosts(
+  posts: Post[],
+  weights: RelatedPostsWeights = RELATED_POSTS_WEIGHTS
+): Map<string, RelatedPost[]> {
+  const vectors = termVectors(posts, weights.fields);
+  const related = new Map<string, RelatedPost[]>();
+
+  posts.forEach((post, i) => {
+    const tags = new Set(post.tags);
+    const candidates: RelatedPost[] = [];
+
+    posts.forEach((other, j) => {
+      if (i === j) return;
+
+      const { similarity, sharedTerms } = compareTerms(vectors[i], vectors[j]);
+      const sharedTags = other.tags.filter((tag) => tags.has(tag));
+      const allTags = new Set([...post.tags, ...other.tags]).size;
+      const tagScore = allTags > 0 ? sharedTags.length / allTags : 0;
+      const score = weights.content * similarity + weights.tags * tagScore;
+
+      if (score >= weights.minScore && score > 0) {
+        candidates.push({ post: other, score, contentScore: similarity, tagScore, sharedTags, sharedTerms });
+      }
+    });
+
+    candidates.sort((a, b) => b.score - a.score || (a.post.date < b.post.date ? 1 : -1));
+    related.set(post.slug, candidates.slice(0, MAX_RELATED_POSTS));
+  });
+
+  return related;
+}
+
+function formatScore(score: number): string {
+  return score.toFixed(3);
+}
+
+/** A plain-text account of why each post's related posts were picked. */
+export function explainRelatedPosts(
+  related: Map<string, RelatedPost[]>,
+  weights: RelatedPostsWeights = RELATED_POSTS_WEIGHTS
+): string {
+  return Array.from(related, ([slug, matches]) => {
+    const lines = matches.map(
+      ({ post, score, contentScore, tagScore, sharedTags, sharedTerms }, i) =>
+        `  ${i + 1}. ${post.slug}: ${formatScore(score)} = ` +
+        `${weights.content} × content ${formatScore(contentScore)} + ${weights.tags} × tags ${formatScore(tagScore)}\n` +
+        `     shared terms: ${sharedTerms.join(', ') || '(none)'}\n` +
+        `     shared tags: ${sharedTags.join(', ') || '(none)'}`
+    );
+    return `${slug}:\n${lines.join('\n') || '  (no related posts)'}`;
+  }).join('\n\n');
+}
+
+const relatedByStore = new WeakMap<ContentStore, Map<string, RelatedPost[]>>();
+
+/**
+ * Related posts for every visible post, computed once per content store so a
+ * build scores the corpus once rather than on every page. Set
+ * `RELATED_POSTS_DEBUG=1` to print the scores and shared terms behind each
+ * pick when they are computed.
+ */
+export function getRelatedPostsIndex(): Map<string, RelatedPost[]> {
+  const store = getContentStore();
+  let related = relatedByStore.get(store);
+
+  if (!related) {
+    related = computeRelatedPosts(store.byDate);
+    relatedByStore.set(store, related);
+
+    if (process.env.RELATED_POSTS_DEBUG) {
+      console.log(`Related posts:\n\n${explainRelatedPosts(related)}\n`);
+    }
+  }
+
+  return related;
+}
@@ -0,0 +1,120 @@
+import type { Paragraph, PhrasingContent, Root, RootContent, Text } from 'mdast';
+import type { ContainerDirective } from 'mdast-util-directive';
+import type { VFile } from 'vfile';
+import { SKIP, visit } from 'unist-util-visit';
+
+export type CalloutType = 'note' | 'tip' | 'warning';
+
+export const calloutTitles: Record<CalloutType, string> = {
+  note: 'Note',
+  tip: 'Tip',
+  warning: 'Warning',
+};
+
+function isCalloutType(name: string): name is CalloutType {
+  return Object.hasOwn(calloutTitles, name);
+}
+
+/**
+ * Takes the `[label]` paragraph remark-directive puts first, if any.
+ */
+function takeLabel(node: ContainerDirective): PhrasingContent[] | undefined {
+  const [first] = node.children;
+  if (first?.type !== 'paragraph' || !first.data?.directiveLabel) return undefined;
+
+  node.children.shift();
+  return first.children;
+}
+
+function titleParagraph(tagName: string, className: string, children: PhrasingContent[]): Paragraph {
+  return {
+    type: 'paragraph',
+    data: { hName: tagName, hProperties: { className: [className] } },
+    children,
+  };
+}
+
+function textContent(value: string): Text[] {
+  return [{ type: 'text', value }];
+}
+
+function sourceParagraph(value: string): Paragraph {
+  return { type: 'paragraph', children: textContent(value) };
+}
+
+/**
+ * The opening line and closing fence an unrecognised container directive was
+ * written with, so they can be put back around its content.
+ */
+function containerFences(node: ContainerDirective, file: VFile): { open: string; close?: string } {
+  const start = node.position?.start.offset;
+  const end = node.position?.end.offset;
+  if (start === undefined || end === undefined) return { open: `:::${node.name}`, close: ':::' };
+
+  const lines = String(file.value).slice(start, end).split('\n');
+  const last = lines[lines.length - 1].trim();
+  // A directive left open runs to the end of its parent without a fence
+  return { open: lines[0], close: lines.length > 1 && /^:{3,}$/.test(last) ? last : undefined };
+}
+
+/**
+ * Turns `:::note`, `:::tip` and `:::warning` container directives into
+ * `<aside>` callouts, and `:::details{summary="..."}` into a collapsible
+ * `<details>`. A `[label]` after the name replaces the default title.
+ *
+ * remark-directive also reads stray colons in prose as text directives, so
+ * unrecognised directives are put back as the text they were written as; an
+ * unrecognised container keeps its content rendered between its fences.
+ */
+export default function remarkCallouts() {
+  return (tree: Root, file: VFile) => {
+    visit(tree, (node, index, parent) => {
+      if (node.type === 'containerDirective') {
+        if (isCalloutType(node.name)) {
+          const label = takeLabel(node);
+          const title = label ?? textContent(node.attributes?.title || calloutTitles[node.name]);
+          node.data = {
+            hName: 'aside',
+            hProperties: { className: ['callout', `callout-${node.name}`], role: 'note' },
+          };
+          node.children.unshift(titleParagraph('p', 'callout-title', title));
+        } else if (node.name === 'details') {
+          const label = takeLabel(node);
+          const summary = label ?? textContent(node.attributes?.summary || 'Details');
+          node.data = {
+            hName: 'details',
+            hProperties: { className: ['callout', 'callout-details'] },
+          };
+          node.children.unshift(titleParagraph('summary', 'callout-title', summary));
+        } else if (parent && index !== undefined) {
+          const { open, close } = containerFences(node, file);
+          // The label is part of the opening line
+          takeLabel(node);
+          (parent.children as RootContent[]).splice(
+            index,
+            1,
+            sourceParagraph(open),
+            ...node.children,
+            ...(close ? [sourceParagraph(close)] : [])
+          );
+          // Carries on with the content, which may hold directives of its own
+          return [SKIP, index + 1];
+        }
+        return;
+      }
+
+      if ((node.type === 'textDirective' || node.type === 'leafDirective') && parent && index !== undefined) {
+        const start = node.position?.start.offset;
+        const end = node.position?.end.offset;
+        const source = start !== undefined && end !== undefined
+          ? String(file.value).slice(start, end)
+          : `${node.type === 'leafDirective' ? '::' : ':'}${node.name}`;
+        const text: Text = { type: 'text', value: source };
+
+        parent.children[index] = node.type === 'leafDirective'
+          ? { type: 'paragraph', children: [text] }
+          : text;
+      }
+    });
+  };
+}
@@ -0,0 +1,130 @@
+import { remark } from 'remark';
+import remarkRehype from 'remark-rehype';
+import type { ElementContent, Root } from 'hast';
+import { headingRank } from 'hast-util-heading-rank';
+import type { Post } from './posts';
+import { remarkPlugins, rehypePlugins } from './markdown';
+import { stripMdxSyntax } from './post-file';
+import { getTagLabel } from './tag-registry';
+import { headingText } from './toc';
+import type { SearchDocument, SearchIndex, SearchSection } from './search';
+
+// Code, math and the UI rehype plugins add would only make noisy matches
+const SKIPPED_TAGS = new Set(['pre', 'button', 'input', 'sup', 'svg']);
+const SKIPPED_CLASSES = ['code-block', 'katex', 'sidenote', 'heading-anchor'];
+
+function isSkipped(node: ElementContent): boolean {
+  if (node.type !== 'element') return false;
+  if (SKIPPED_TAGS.has(node.tagName)) return true;
+
+  const className = node.properties.className;
+  return Array.isArray(className) && SKIPPED_CLASSES.some((name) => className.includes(name));
+}
+
+function blockText(nodes: ElementContent[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return node.value;
+      if (node.type !== 'element' || isSkipped(node)) return '';
+      return ` ${blockText(node.children)} `;
+    })
+    .join('');
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Characters of text kept per section. Searches match what the reader sees
+ * first in each section, and the index stays small enough to fetch on the
+ * first Cmd-K.
+ */
+const MAX_SECTION_TEXT = 500;
+
+function capText(text: string): string {
+  if (text.length <= MAX_SECTION_TEXT) return text;
+  const capped = text.slice(0, MAX_SECTION_TEXT);
+  const lastSpace = capped.lastIndexOf(' ');
+  return lastSpace > 0 ? capped.slice(0, lastSpace) : capped;
+}
+
+/**
+ * Splits the rendered post into sections at its h2–h4 headings, keeping the
+ * ids `rehype-slug` gave them so results can link straight to the heading.
+ * Text before the first heading goes into a section with an empty id.
+ */
+function rehypeCollectSections({ sections }: { sections: SearchSection[] }) {
+  return (tree: Root) => {
+    let current: SearchSection = { id: '', heading: '', text: '' };
+    const parts: string[] = [];
+
+    const flush = () => {
+      current.text = capText(collapseWhitespace(parts.join(' ')));
+      if (current.id || current.text) sections.push(current);
+      parts.length = 0;
+    };
+
+    for (const node of tree.children) {
+      if (node.type !== 'element' || isSkipped(node)) continue;
+      // The footnotes section repeats what sidenotes already show inline
+      if (node.properties.dataFootnotes) continue;
+
+      const level = headingRank(node);
+      const id = node.properties.id;
+      if (level && level >= 2 && level <= 4 && typeof id === 'string') {
+        flush();
+        current = { id, heading: collapseWhitespace(headingText(node.children)), text: '' };
+        continue;
+      }
+
+      parts.push(blockText([node]));
+    }
+
+    flush();
+  };
+}
+
+async function collectSections(post: Post): Promise<SearchSection[]> {
+  const sections: SearchSection[] = [];
+  const processor = remark()
+    .use(remarkPlugins)
+    .use(remarkRehype)
+    .use(rehypePlugins)
+    .use(rehypeCollectSections, { sections });
+
+  // Only the tree is needed, so the HTML is never serialized
+  const source = post.format === 'mdx' ? stripMdxSyntax(post.content) : post.content;
+  await processor.run(processor.parse(source));
+
+  return sections;
+}
+
+/**
+ * Builds the index `app/search-index.json/route.ts` publishes for the
+ * browser to search. Posts go through the same plugins as the page they link
+ * to, so section ids match the rendered headings, but only readable text is
+ * kept: no markup, code blocks, math or footnote markers.
+ */
+export async function buildSearchIndex(posts: Post[]): Promise<SearchIndex> {
+  const documents: SearchDocument[] = [];
+
+  for (const post of posts) {
+    const sections = await collectSections(post);
+    const summary = collapseWhitespace(post.excerpt || '');
+    // Generated excerpts are the start of the intro, cut off with "..."
+    const intro = sections[0]?.id === '' ? sections[0].text : '';
+    const repeatsIntro = intro.startsWith(summary.replace(/\.{3}$/, ''));
+
+    documents.push({
+      slug: post.slug,
+      title: post.title,
+      date: post.date,
+      tags: post.tags.map(getTagLabel),
+      ...(!repeatsIntro && { summary }),
+      sections,
+    });
+  }
+
+  return { documents };
+}
@@ -0,0 +1,285 @@
+/**
+ * Client-side search over the index `app/search-index.json/route.ts` builds.
+ * The blog is small enough that scanning every post per keystroke is faster
+ * than shipping and loading a prebuilt inverted index.
+ */
+
+export interface SearchSection {
+  /** Heading id to link to, or empty for the text before the first heading. */
+  id: string;
+  heading: string;
+  text: string;
+}
+
+export interface SearchDocument {
+  slug: string;
+  title: string;
+  date: string;
+  tags: string[];
+  /** Left out when the text before the first heading already starts with it. */
+  summary?: string;
+  sections: SearchSection[];
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+}
+
+/** A piece of a title or snippet, marked when it matches a search term. */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  slug: string;
+  /** The post, or the heading of the best matching section in it. */
+  href: string;
+  title: HighlightSegment[];
+  date: string;
+  tags: string[];
+  heading: string | null;
+  snippet: HighlightSegment[];
+}
+
+// Weights for a term found in each field, summed over the query's terms
+const TITLE_WEIGHT = 10;
+const TAG_WEIGHT = 6;
+const HEADING_WEIGHT = 4;
+const SUMMARY_WEIGHT = 3;
+const BODY_WEIGHT = 1;
+// Repeating a word in the body stops adding to the score after this many hits
+const MAX_BODY_HITS = 5;
+
+const SNIPPET_LENGTH = 180;
+const SNIPPET_CONTEXT = 50;
+
+/**
+ * Lowercased text without diacritics, so "naive" finds "naïve", with the
+ * original offset of every character for highlighting.
+ */
+interface NormalizedText {
+  original: string;
+  text: string;
+  offsets: number[];
+}
+
+function normalize(original: string): NormalizedText {
+  let text = '';
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const char of original) {
+    const folded = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (let i = 0; i < folded.length; i++) offsets.push(offset);
+    text += folded;
+    offset += char.length;
+  }
+
+  offsets.push(original.length);
+  return { original, text, offsets };
+}
+
+export function parseQuery(query: string): string[] {
+  const terms = normalize(query).text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Terms match at the start of a word, so "type" finds "TypeScript" but "script" does not
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`, 'gu');
+}
+
+function countMatches(field: NormalizedText, pattern: RegExp): number {
+  pattern.lastIndex = 0;
+  let count = 0;
+  while (pattern.exec(field.text)) count++;
+  return count;
+}
+
+function firstMatch(field: NormalizedText, patterns: RegExp[]): number {
+  let first = -1;
+  for (const pattern of patterns) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(field.text);
+    if (match && (first === -1 || match.index < first)) first = match.index;
+  }
+  return first;
+}
+
+/** Splits original text from `start` to `end` into matching and other segments. */
+function highlight(field: NormalizedText, patterns: RegExp[], start = 0, end = field.original.length): HighlightSegment[] {
+  const ranges: [number, number][] = [];
+  for (const pattern of patterns) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(field.text))) {
+      const from = field.offsets[match.index];
+      const to = field.offsets[match.index + match[0].length];
+      if (from >= start && to <= end) ranges.push([from, to]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+
+  const segments: HighlightSegment[] = [];
+  let position = start;
+  for (const [from, to] of ranges) {
+    // Overlapping matches, e.g. "type" and "types", merge into the first
+    if (to <= position) continue;
+    if (from > position) segments.push({ text: field.original.slice(position, from), match: false });
+    segments.push({ text: field.original.slice(Math.max(from, position), to), match: true });
+    position = to;
+  }
+  if (position < end) segments.push({ text: field.original.slice(position, end), match: false });
+
+  return segments;
+}
+
+/** About `SNIPPET_LENGTH` characters around the first match, cut at spaces. */
+function snippet(field: NormalizedText, patterns: RegExp[]): HighlightSegment[] {
+  const { original } = field;
+  const matchIndex = firstMatch(field, patterns);
+  let start = matchIndex === -1 ? 0 : Math.max(0, field.offsets[matchIndex] - SNIPPET_CONTEXT);
+  let end = Math.min(original.length, start + SNIPPET_LENGTH);
+
+  if (start > 0) {
+    const space = original.indexOf(' ', start);
+    if (space !== -1 && space < field.offsets[Math.max(matchIndex, 0)]) start = space + 1;
+  }
+  if (end < original.length) {
+    const space = original.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const segments = highlight(field, patterns, start, end);
+  if (start > 0) segments.unshift({ text: '…', match: false });
+  if (end < original.length) segments.push({ text: '…', match: false });
+  return segments;
+}
+
+interface PreparedSection {
+  id: string;
+  heading: NormalizedText;
+  text: NormalizedText;
+}
+
+interface PreparedDocument {
+  document: SearchDocument;
+  title: NormalizedText;
+  tags: NormalizedText[];
+  summary: NormalizedText;
+  sections: PreparedSection[];
+}
+
+const prepared = new WeakMap<SearchIndex, PreparedDocument[]>();
+
+// Normalizing is the expensive part, so it happens once per index
+function prepare(index: SearchIndex): PreparedDocument[] {
+  let documents = prepared.get(index);
+  if (!documents) {
+    documents = index.documents.map((document) => ({
+      document,
+      title: normalize(document.title),
+      tags: document.tags.map(normalize),
+      summary: normalize(document.summary ?? ''),
+      sections: document.sections.map((section) => ({
+        id: section.id,
+        heading: normalize(section.heading),
+        text: normalize(section.text),
+      })),
+    }));
+    prepared.set(index, documents);
+  }
+  return documents;
+}
+
+/**
+ * Ranks posts that contain every term of the query, anywhere in the post.
+ * Each result links to its best matching section and shows a snippet of it,
+ * falling back to the summary, or the intro that repeats it, when only the
+ * title or tags matched.
+ */
+export function search(index: SearchIndex, query: string, limit?: number): SearchResult[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const patterns = terms.map(termPattern);
+  const scored: { score: number; result: SearchResult }[] = [];
+
+  for (const doc of prepare(index)) {
+    let score = 0;
+    const sectionScores = doc.sections.map(() => 0);
+    let matchesAll = true;
+
+    for (const pattern of patterns) {
+      let termScore = 0;
+      if (countMatches(doc.title, pattern) > 0) termScore += TITLE_WEIGHT;
+      if (doc.tags.some((tag) => countMatches(tag, pattern) > 0)) termScore += TAG_WEIGHT;
+      if (countMatches(doc.summary, pattern) > 0) termScore += SUMMARY_WEIGHT;
+
+      doc.sections.forEach((section, i) => {
+        const sectionScore =
+          (countMatches(section.heading, pattern) > 0 ? HEADING_WEIGHT : 0) +
+          Math.min(countMatches(section.text, pattern), MAX_BODY_HITS) * BODY_WEIGHT;
+        sectionScores[i] += sectionScore;
+        termScore += sectionScore;
+      });
+
+      if (termScore === 0) {
+        matchesAll = false;
+        break;
+      }
+      score += termScore;
+    }
+
+    if (!matchesAll) continue;
+
+    // The earliest section wins ties, so a match in the intro links to the post itself
+    const best = sectionScores.reduce((bestIndex, sectionScore, i) =>
+      sectionScore > sectionScores[bestIndex] ? i : bestIndex, 0);
+    const section = sectionScores[best] > 0 ? doc.sections[best] : undefined;
+    const { slug, date, tags } = doc.document;
+    const fallback = doc.document.summary === undefined && doc.sections[0] ? doc.sections[0].text : doc.summary;
+
+    scored.push({
+      score,
+      result: {
+        slug,
+        href: section?.id ? `/${slug}/#${section.id}` : `/${slug}/`,
+        title: highlight(doc.title, patterns),
+        date,
+        tags,
+        heading: section?.heading.original || null,
+        snippet: section && firstMatch(section.text, patterns) !== -1
+          ? snippet(section.text, patterns)
+          : snippet(fallback, patterns),
+      },
+    });
+  }
+
+  // Newer posts first among equally good matches
+  scored.sort((a, b) => b.score - a.score || b.result.date.localeCompare(a.result.date));
+  return scored.slice(0, limit).map(({ result }) => result);
+}
+
+let indexRequest: Promise<SearchIndex> | null = null;
+
+/** Fetches the index once per page load; a failed request is retried on the next call. */
+export function loadSearchIndex(): Promise<SearchIndex> {
+  if (!indexRequest) {
+    indexRequest = fetch('/search-index.json')
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load the search index: ${response.status}`);
+        return response.json() as Promise<SearchIndex>;
+      })
+      .catch((error) => {
+        indexRequest = null;
+        throw error;
+      });
+  }
+  return indexRequest;
+}
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { format } from 'date-fns';
+import { ImageResponse } from 'next/og';
+import type { Post } from './posts';
+import { siteFileUrl } from './site';
+import { getTagLabel } from './tag-registry';
+
+export const SOCIAL_CARD_WIDTH = 1200;
+export const SOCIAL_CARD_HEIGHT = 630;
+
+/** Card for pages that are not posts, served by `app/og.png/route.ts`. */
+export const siteCardImage = {
+  url: siteFileUrl('/og.png'),
+  width: SOCIAL_CARD_WIDTH,
+  height: SOCIAL_CARD_HEIGHT,
+  alt: "Tero's blog",
+};
+
+/**
+ * The image shared links to a post preview with: the frontmatter `image` when
+ * set, otherwise the card `app/[slug]/og.png/route.ts` generates.
+ */
+export function getPostImage(post: Post): { url: string; width?: number; height?: number; alt: string } {
+  if (post.image) {
+    return { url: post.image.startsWith('/') ? siteFileUrl(post.image) : post.image, alt: post.title };
+  }
+
+  return {
+    url: siteFileUrl(`/${post.slug}/og.png`),
+    width: SOCIAL_CARD_WIDTH,
+    height: SOCIAL_CARD_HEIGHT,
+    alt: post.title,
+  };
+}
+
+// Inter is the site's typeface; next/og needs it as a font file, not a stylesheet
+function loadInter(weight: 400 | 700 | 800) {
+  const file = path.join(process.cwd(), `node_modules/@fontsource/inter/files/inter-latin-${weight}-normal.woff`);
+  const data = fs.readFileSync(file);
+  return {
+    name: 'Inter',
+    data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer,
+    weight,
+    style: 'normal' as const,
+  };
+}
+
+function titleFontSize(title: string): number {
+  if (title.length > 90) return 52;
+  if (title.length > 60) return 62;
+  return 74;
+}
+
+interface SocialCardProps {
+  title: string;
+  /** Shown above the title, e.g. date and reading time. */
+  meta?: string[];
+  tags?: string[];
+}
+
+/**
+ * Renders a 1200×630 Open Graph card in the look of a post header: uppercase
+ * metadata, the title in extra-bold Inter and the tags below.
+ */
+export function renderSocialCard({ title, meta = [], tags = [] }: SocialCardProps): ImageResponse {
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '72px 80px',
+          backgroundColor: '#ffffff',
+          borderTop: '16px solid #578ee6',
+          fontFamily: 'Inter',
+          color: '#192734',
+        }}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          {meta.length > 0 && (
+            <div
+              style={{
+                display: 'flex',
+                fontSize: 26,
+                fontWeight: 700,
+                letterSpacing: '0.05em',
+                color: 'rgba(23, 37, 84, 0.5)',
+                marginBottom: 28,
+              }}
+            >
+              {meta.join('  •  ').toUpperCase()}
+            </div>
+          )}
+          <div
+            style={{
+              display: 'flex',
+              fontSize: titleFontSize(title),
+              fontWeight: 800,
+              lineHeight: 1.15,
+              letterSpacing: '-0.02em',
+            }}
+          >
+            {title}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, maxWidth: 760 }}>
+            {tags.slice(0, 5).map((tag) => (
+              <div
+                key={tag}
+                style={{
+                  display: 'flex',
+                  padding: '6px 18px',
+                  borderRadius: 999,
+                  backgroundColor: '#eff4fd',
+                  color: '#4578d4',
+                  fontSize: 24,
+                  fontWeight: 400,
+                }}
+              >
+                {tag}
+              </div>
+            ))}
+          </div>
+          <div style={{ display: 'flex', fontSize: 30, fontWeight: 700 }}>Tero&apos;s blog</div>
+        </div>
+      </div>
+    ),
+    {
+      width: SOCIAL_CARD_WIDTH,
+      height: SOCIAL_CARD_HEIGHT,
+      fonts: [loadInter(400), loadInter(700), loadInter(800)],
+    }
+  );
+}
+
+export function renderPostCard(post: Post): ImageResponse {
+  return renderSocialCard({
+    title: post.title,
+    meta: [format(new Date(post.date), 'MMM d, yyyy'), `${post.readingTime} min read`],
+    tags: post.tags.map(getTagLabel),
+  });
+}
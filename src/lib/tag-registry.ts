@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { tagToSlug } from './tags';
+
+const REGISTRY_FILE = 'content/tags.yml';
+const registryPath = path.join(process.cwd(), REGISTRY_FILE);
+
+export interface TagDefinition {
+  slug: string;
+  label: string;
+  /** Markdown shown on the tag's page. */
+  description?: string;
+  /** Slugs of other spellings that fold into this tag. */
+  aliases: string[];
+  parent?: string;
+}
+
+export interface TagRegistry {
+  tags: Map<string, TagDefinition>;
+  /** Alias slug to the canonical tag slug. */
+  aliases: Map<string, string>;
+}
+
+export interface TagRegistryIssue {
+  tag: string;
+  message: string;
+}
+
+export class TagRegistryValidationError extends Error {
+  readonly issues: TagRegistryIssue[];
+
+  constructor(issues: TagRegistryIssue[]) {
+    super(
+      `Tag registry validation failed (${issues.length} issue(s)):\n\n` +
+        issues.map((issue) => `  - ${REGISTRY_FILE}: ${issue.tag}: ${issue.message}`).join('\n')
+    );
+    this.name = 'TagRegistryValidationError';
+    this.issues = issues;
+  }
+}
+
+const KNOWN_FIELDS = new Set(['label', 'description', 'aliases', 'parent']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the parsed YAML: every entry needs a label, keys must already be
+ * slugs, and aliases and parents must not point at tags that do not exist or
+ * at each other in a cycle.
+ */
+function parseRegistry(data: unknown): { registry: TagRegistry; issues: TagRegistryIssue[] } {
+  const registry: TagRegistry = { tags: new Map(), aliases: new Map() };
+  const issues: TagRegistryIssue[] = [];
+
+  if (data === null || data === undefined) {
+    return { registry, issues };
+  }
+  if (!isRecord(data)) {
+    return { registry, issues: [{ tag: '(root)', message: 'expected a mapping of tag slugs' }] };
+  }
+
+  for (const [slug, entry] of Object.entries(data)) {
+    if (tagToSlug(slug) !== slug) {
+      issues.push({ tag: slug, message: `key must be a tag slug, e.g. "${tagToSlug(slug)}"` });
+      continue;
+    }
+    if (!isRecord(entry)) {
+      issues.push({ tag: slug, message: 'expected a mapping with at least a label' });
+      continue;
+    }
+
+    for (const field of Object.keys(entry)) {
+      if (!KNOWN_FIELDS.has(field)) issues.push({ tag: slug, message: `unknown field "${field}"` });
+    }
+
+    const { label, description, aliases = [], parent } = entry;
+    if (typeof label !== 'string' || !label.trim()) {
+      issues.push({ tag: slug, message: 'label: expected a non-empty string' });
+      continue;
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      issues.push({ tag: slug, message: 'description: expected a string' });
+    }
+    if (parent !== undefined && typeof parent !== 'string') {
+      issues.push({ tag: slug, message: 'parent: expected a tag slug' });
+    }
+    if (!Array.isArray(aliases) || aliases.some((alias) => typeof alias !== 'string')) {
+      issues.push({ tag: slug, message: 'aliases: expected a list of strings' });
+    }
+
+    registry.tags.set(slug, {
+      slug,
+      label: label.trim(),
+      description: typeof description === 'string' ? description.trim() : undefined,
+      aliases: Array.isArray(aliases) ? aliases.filter((alias) => typeof alias === 'string').map(tagToSlug) : [],
+      parent: typeof parent === 'string' ? tagToSlug(parent) : undefined,
+    });
+  }
+
+  for (const tag of registry.tags.values()) {
+    for (const alias of tag.aliases) {
+      const existing = registry.aliases.get(alias);
+      if (registry.tags.has(alias)) {
+        issues.push({ tag: tag.slug, message: `alias "${alias}" is a tag of its own` });
+      } else if (existing && existing !== tag.slug) {
+        issues.push({ tag: tag.slug, message: `alias "${alias}" is also an alias of ${existing}` });
+      } else {
+        registry.aliases.set(alias, tag.slug);
+      }
+    }
+
+    if (tag.parent && !registry.tags.has(tag.parent)) {
+      issues.push({ tag: tag.slug, message: `parent "${tag.parent}" is not in the registry` });
+    }
+  }
+
+  for (const tag of registry.tags.values()) {
+    const seen = new Set([tag.slug]);
+    for (let parent = tag.parent; parent; parent = registry.tags.get(parent)?.parent) {
+      if (seen.has(parent)) {
+        issues.push({ tag: tag.slug, message: `parent chain loops back to "${parent}"` });
+        break;
+      }
+      seen.add(parent);
+    }
+  }
+
+  return { registry, issues };
+}
+
+let cached: { mtimeMs: number; registry: TagRegistry } | null = null;
+
+/**
+ * The tags declared in `content/tags.yml`, re-read when the file changes so
+ * `next dev` picks up edits. A missing file is an empty registry.
+ */
+export function getTagRegistry(): TagRegistry {
+  let mtimeMs = -1;
+  try {
+    mtimeMs = fs.statSync(registryPath).mtimeMs;
+  } catch {
+    // No registry yet: every tag shows its slug
+  }
+
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.registry;
+  }
+
+  const data = mtimeMs === -1 ? null : parse(fs.readFileSync(registryPath, 'utf8'));
+  const { registry, issues } = parseRegistry(data);
+
+  if (issues.length > 0) {
+    throw new TagRegistryValidationError(issues);
+  }
+
+  cached = { mtimeMs, registry };
+  return registry;
+}
+
+/** Folds aliases into their canonical tag, keeping the first occurrence of each. */
+export function canonicalTags(slugs: string[]): string[] {
+  const { aliases } = getTagRegistry();
+  return Array.from(new Set(slugs.map((slug) => aliases.get(slug) ?? slug)));
+}
+
+export function getTagDefinition(slug: string): TagDefinition | undefined {
+  return getTagRegistry().tags.get(slug);
+}
+
+/** The registry's display label, or the slug for unregistered tags. */
+export function getTagLabel(slug: string): string {
+  return getTagDefinition(slug)?.label ?? slug;
+}
+
+/** Tags used in posts that `content/tags.yml` does not declare. */
+export function findUnregisteredTags(posts: { file: string; tags: string[] }[]): { file: string; tag: string }[] {
+  const { tags } = getTagRegistry();
+  return posts.flatMap(({ file, tags: postTags }) =>
+    postTags.filter((tag) => !tags.has(tag)).map((tag) => ({ file, tag }))
+  );
+}
@@ -1,4 +1,5 @@
-import GithubSlugger from 'github-slugger';
+import type { ElementContent, Root } from 'hast';
+import { headingRank } from 'hast-util-heading-rank';
 
 export interface TocItem {
   text: string;
@@ -6,40 +7,52 @@ export interface TocItem {
   level: number;
 }
 
-/**
- * Extract table of contents from markdown content.
- * Looks for h2 and h3 headings and generates GitHub-style slugs.
- */
-export function extractToc(markdown: string): TocItem[] {
-  const lines = markdown.split('\n');
-  const items: TocItem[] = [];
-  const slugger = new GithubSlugger();
+/** Deepest heading level a table of contents lists: h2, h3 or h4. */
+export type TocDepth = 2 | 3 | 4;
 
-  for (const line of lines) {
-    const match = line.match(/^(#{2,3})\s+(.+)$/);
-    if (!match) continue;
+export const DEFAULT_TOC_DEPTH: TocDepth = 3;
 
-    const level = match[1].length;
-    const rawText = match[2].trim();
-    const text = stripMarkdownInlineFormatting(rawText);
-    const slug = slugger.slug(text);
+/**
+ * Heading text without footnote references, the sidenotes `rehypeSidenotes`
+ * places after them and the "#" link from `rehypeHeadingAnchors`.
+ */
+export function headingText(nodes: ElementContent[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return node.value;
+      if (node.type !== 'element' || node.tagName === 'sup' || node.tagName === 'input') return '';
 
-    items.push({ text, slug, level });
-  }
+      const className = node.properties.className;
+      if (Array.isArray(className) && (className.includes('sidenote') || className.includes('heading-anchor'))) {
+        return '';
+      }
+      return headingText(node.children);
+    })
+    .join('');
+}
 
-  return items;
+interface CollectTocOptions {
+  /** Filled with the post's headings while the tree is processed. */
+  items: TocItem[];
+  depth?: TocDepth;
 }
 
 /**
- * Remove common inline markdown formatting (bold, italic) from heading text
- * so the TOC displays clean text instead of raw asterisks.
+ * Collects the table of contents from the rendered headings, after
+ * `rehype-slug` has given them ids, so every entry links to the anchor the
+ * page actually has. Only top-level headings count: headings inside callouts
+ * and the footnotes section stay out.
  */
-function stripMarkdownInlineFormatting(text: string): string {
-  return text
-    .replace(/\*\*\*(.+?)\*\*\*/g, '$1')  // ***bold italic***
-    .replace(/\*\*(.+?)\*\*/g, '$1')      // **bold**
-    .replace(/\*(.+?)\*/g, '$1')           // *italic*
-    .replace(/___(.+?)___/g, '$1')         // ___bold italic___
-    .replace(/__(.+?)__/g, '$1')           // __bold__
-    .replace(/_(.+?)_/g, '$1');            // _italic_
+export function rehypeCollectToc({ items, depth = DEFAULT_TOC_DEPTH }: CollectTocOptions) {
+  return (tree: Root) => {
+    for (const node of tree.children) {
+      if (node.type !== 'element') continue;
+
+      const level = headingRank(node);
+      const slug = node.properties.id;
+      if (!level || level < 2 || level > depth || typeof slug !== 'string') continue;
+
+      items.push({ text: headingText(node.children).trim(), slug, level });
+    }
+  };
 }